@@ -1,11 +1,15 @@
 import 'dotenv/config';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import cors from 'cors';
 import express, { Request, Response } from 'express';
-import Docker from 'dockerode';
-import type { ToolContext } from './shared/types.js';
-import { getAllTools } from './tools/registry.js';
+import { getAllTools, registerTools } from './tools/registry.js';
+import { AVAILABLE_RESOURCES, registerResources } from './resources/registry.js';
+import { createToolContext, parseNumber } from './shared/context.js';
+import { HttpSessionManager, sendJsonRpcError } from './services/httpSessions.js';
+import { toAuditQuery } from './services/auditLog.js';
+import { Authenticator, AuthenticationError, allowedContainers, hasScope } from './services/authenticator.js';
 
 /*
  * DOCKER CONTAINER MCP SERVER (HTTP)
@@ -14,20 +18,15 @@ import { getAllTools } from './tools/registry.js';
  * It provides Docker container management and execution capabilities via HTTP transport.
  */
 
-// Initialize Docker client
-const docker = new Docker();
-
 // Create tool context
-const toolContext: ToolContext = {
-  docker
-};
+const toolContext = createToolContext();
+
+const authenticator = Authenticator.fromEnv();
 
 // Authentication middleware
-const authMiddleware = (req: Request, res: Response, next: () => void) => {
-  const authToken = process.env.MCP_AUTH_TOKEN;
-  
-  // If no auth token is configured, skip authentication
-  if (!authToken) {
+const authMiddleware = (req: Request & { auth?: AuthInfo }, res: Response, next: () => void) => {
+  // If no token is configured, skip authentication
+  if (!authenticator.enabled) {
     return next();
   }
 
@@ -49,122 +48,158 @@ const authMiddleware = (req: Request, res: Response, next: () => void) => {
     ? authHeader.substring(7) 
     : authHeader;
 
-  if (token !== authToken) {
+  try {
+    // Passed to tool handlers as extra.authInfo; the client ID identifies the caller in the audit log
+    req.auth = authenticator.authenticate(token);
+  } catch (error) {
     return res.status(403).json({
       jsonrpc: '2.0',
       error: {
         code: -32002,
-        message: 'Invalid authentication token.',
+        message: error instanceof AuthenticationError ? error.message : 'Invalid authentication token.',
       },
       id: null,
     });
   }
-
   next();
 };
 
-const getServer = () => {
+const tools = getAllTools();
+
+const getServer = (auth?: AuthInfo) => {
   const server = new McpServer({
     name: 'docker-container-mcp-server',
     version: '1.0.0',
   }, { capabilities: { logging: {} } });
 
-  // Register all tools from the registry
-  const tools = getAllTools();
-
-  tools.forEach(toolDef => {
-    server.tool(
-      toolDef.name,
-      toolDef.description,
-      toolDef.inputSchema.shape,
-      async (params: unknown) => {
-        return await toolDef.handler(params, toolContext);
-      }
-    );
-  });
-
-  console.log(`✅ Registered ${tools.length} tools:`);
-  tools.forEach(tool => {
-    console.log(`   • ${tool.name}: ${tool.description}`);
-  });
+  // Register the tools the caller's scopes allow
+  registerTools(server, toolContext, 'http', auth);
+  registerResources(server, toolContext, 'http', auth);
 
   return server;
 };
 
+// Stateless mode answers every POST with a fresh server and keeps nothing between requests
+const stateless = process.env.MCP_HTTP_STATELESS === 'true';
+const sessions = new HttpSessionManager(getServer, {
+  idleTimeout: parseNumber(process.env.MCP_HTTP_SESSION_IDLE_TIMEOUT),
+  maxEvents: parseNumber(process.env.MCP_HTTP_EVENT_STORE_SIZE)
+});
+
 const app = express();
 app.use(express.json({ limit: '50mb' }));
 
 // Configure CORS
 app.use(cors({
   origin: '*',
-  exposedHeaders: ['Mcp-Session-Id']
+  exposedHeaders: ['Mcp-Session-Id'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'Mcp-Session-Id', 'Mcp-Protocol-Version', 'Last-Event-ID']
 }));
 
-app.post('/mcp', authMiddleware, async (req: Request, res: Response) => {
-  const server = getServer();
+const handleStateless = async (req: Request & { auth?: AuthInfo }, res: Response) => {
+  if (req.method !== 'POST') {
+    return sendJsonRpcError(res, 405, -32000, 'Method not allowed. The server runs in stateless mode (MCP_HTTP_STATELESS).');
+  }
+
+  const server = getServer(req.auth);
+  const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: undefined,
+  });
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+  res.on('close', () => {
+    transport.close();
+    server.close();
+  });
+};
+
+const handleMcpRequest = async (req: Request, res: Response) => {
   try {
-    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
-      sessionIdGenerator: undefined,
-    });
-    await server.connect(transport);
-    await transport.handleRequest(req, res, req.body);
-    res.on('close', () => {
-      console.log('Request closed');
-      transport.close();
-      server.close();
-    });
+    if (stateless) {
+      await handleStateless(req, res);
+    } else {
+      await sessions.handle(req, res);
+    }
   } catch (error) {
-    console.error('Error handling MCP request:', error);
+    console.error(`Error handling MCP ${req.method} request:`, error);
     if (!res.headersSent) {
-      res.status(500).json({
-        jsonrpc: '2.0',
-        error: {
-          code: -32603,
-          message: 'Internal server error',
-        },
-        id: null,
-      });
+      sendJsonRpcError(res, 500, -32603, 'Internal server error');
     }
   }
-});
-
-app.get('/mcp', async (req: Request, res: Response) => {
-  console.log('Received GET MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
+};
 
-app.delete('/mcp', async (req: Request, res: Response) => {
-  console.log('Received DELETE MCP request');
-  res.writeHead(405).end(JSON.stringify({
-    jsonrpc: "2.0",
-    error: {
-      code: -32000,
-      message: "Method not allowed."
-    },
-    id: null
-  }));
-});
+app.post('/mcp', authMiddleware, handleMcpRequest);
+app.get('/mcp', authMiddleware, handleMcpRequest);
+app.delete('/mcp', authMiddleware, handleMcpRequest);
+
+// Same filters as the audit_query tool, e.g. GET /audit?container=staging-*&since=12h
+const auditHttp = process.env.MCP_AUDIT_HTTP === 'true' && toolContext.audit.enabled;
+if (auditHttp) {
+  app.get('/audit', authMiddleware, async (req: Request & { auth?: AuthInfo }, res: Response) => {
+    const param = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+    const status = param('status');
+    if (!hasScope(req.auth, 'read')) {
+      res.status(403).json({ error: `${req.auth!.clientId} lacks the 'read' scope` });
+      return;
+    }
+    try {
+      if (status !== undefined && status !== 'success' && status !== 'failure') {
+        throw new Error(`Invalid status '${status}' (use success or failure)`);
+      }
+      const records = await toolContext.audit.query(toAuditQuery({
+        since: param('since'),
+        until: param('until'),
+        container: param('container'),
+        tool: param('tool'),
+        // Callers limited to some containers only see their own calls
+        caller: allowedContainers(req.auth) ? req.auth!.clientId : param('caller'),
+        status,
+        exit_code: parseNumber(param('exit_code')),
+        limit: parseNumber(param('limit'))
+      }));
+      res.json({ records });
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+}
 
 // Start the server
 const PORT = process.env.PORT ? parseInt(process.env.PORT) : 4200;
 app.listen(PORT, () => {
   console.log(`🐳 Docker Container MCP Server listening on port ${PORT}`);
-  if (process.env.MCP_AUTH_TOKEN) {
-    console.log('🔒 Authentication enabled');
+  console.log(`✅ Registered ${tools.length} tools:`);
+  tools.forEach(tool => {
+    console.log(`   • ${tool.name}: ${tool.description}`);
+  });
+  console.log(`📚 Resources: ${AVAILABLE_RESOURCES.map(resource => `container://{name}/${resource.path}`).join(', ')}`);
+  if (stateless) {
+    console.log('📭 Stateless mode: no sessions, GET and DELETE are not supported');
   } else {
-    console.log('⚠️  No MCP_AUTH_TOKEN set - running without authentication');
+    console.log('📬 Session mode: Mcp-Session-Id, SSE streams and Last-Event-ID resumption');
+    sessions.start();
+  }
+  if (authenticator.enabled) {
+    console.log(`🔒 Authentication enabled: ${authenticator.describe()}`);
+  } else {
+    console.log('⚠️  No MCP_AUTH_TOKEN or MCP_AUTH_TOKENS_FILE set - running without authentication');
+  }
+  toolContext.hosts.list().forEach(host => {
+    console.log(`🔌 Docker host ${host.name}: ${host.endpoint}${host.name === toolContext.hosts.primary ? ' (primary)' : ''}`);
+  });
+  if (toolContext.policy.enabled) {
+    console.log('🛡️  Container access policy enabled');
+  }
+  if (toolContext.audit.enabled) {
+    console.log(`📝 Audit log enabled${auditHttp ? ', queryable at /audit' : ''}`);
   }
+  toolContext.hosts.start();
 });
 
 // Handle server shutdown
 process.on('SIGINT', async () => {
   console.log('Shutting down Docker Container MCP server...');
+  await sessions.closeAll();
+  await toolContext.hosts.close();
   process.exit(0);
 });
\ No newline at end of file
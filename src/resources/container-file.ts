@@ -0,0 +1,20 @@
+import type { ResourceDefinition, ToolContext } from '../shared/types.js';
+import { readFile } from '../tools/read-file.js';
+import { resultData } from '../utils/responseUtils.js';
+
+async function read(container: string, variables: Record<string, string>, context: ToolContext) {
+  const path = '/' + variables.path.replace(/^\/+/, '');
+  const data = resultData(await readFile.handler(readFile.inputSchema.parse({ container_id: container, path }), context));
+  if (data.encoding === 'base64') {
+    return { mimeType: 'application/octet-stream', blob: data.content };
+  }
+  return { mimeType: 'text/plain', text: data.content };
+}
+
+export const containerFileResource: ResourceDefinition = {
+  name: 'container-file',
+  path: 'file/{+path}',
+  description: 'A file in the container, e.g. container://web/file/etc/nginx/nginx.conf. Files larger than MCP_MAX_FILE_SIZE are cut off; use read_file with an offset for the rest',
+  listed: false,
+  read
+};
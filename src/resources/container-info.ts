@@ -0,0 +1,20 @@
+import type { ResourceDefinition, ToolContext } from '../shared/types.js';
+import { getContainerInfo } from '../tools/get-container-info.js';
+import { resultData } from '../utils/responseUtils.js';
+
+async function read(container: string, _variables: Record<string, string>, context: ToolContext) {
+  const result = await getContainerInfo.handler(getContainerInfo.inputSchema.parse({ container_id: container }), context);
+  return {
+    mimeType: 'application/json',
+    text: JSON.stringify(resultData(result).container, null, 2)
+  };
+}
+
+export const containerInfoResource: ResourceDefinition = {
+  name: 'container-info',
+  path: 'info',
+  description: 'State, image, network, mounts, environment and resource configuration of the container, as returned by get_container_info',
+  mimeType: 'application/json',
+  listed: true,
+  read
+};
@@ -0,0 +1,20 @@
+import type { ResourceDefinition, ToolContext } from '../shared/types.js';
+import { containerLogs } from '../tools/container-logs.js';
+import { resultData } from '../utils/responseUtils.js';
+
+async function read(container: string, _variables: Record<string, string>, context: ToolContext) {
+  const result = await containerLogs.handler(containerLogs.inputSchema.parse({ container_id: container, timestamps: true }), context);
+  return {
+    mimeType: 'text/plain',
+    text: resultData(result).logs
+  };
+}
+
+export const containerLogsResource: ResourceDefinition = {
+  name: 'container-logs',
+  path: 'logs',
+  description: 'The last 200 log lines of the container with timestamps; use container_logs for filtering and following',
+  mimeType: 'text/plain',
+  listed: true,
+  read
+};
@@ -0,0 +1,191 @@
+import { ResourceTemplate, type McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { SubscribeRequestSchema, UnsubscribeRequestSchema, type ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ResourceDefinition, ToolContext } from '../shared/types.js';
+import { selectHost } from '../shared/context.js';
+import { hasScope } from '../services/authenticator.js';
+import { eventTarget } from '../services/containerEvents.js';
+import type { AuditTransport } from '../services/auditLog.js';
+
+import { containerInfoResource } from './container-info.js';
+import { containerLogsResource } from './container-logs.js';
+import { containerFileResource } from './container-file.js';
+
+/**
+ * Container Resource Registry
+ *
+ * Every accessible container is exposed as resources below `container://<name>/`:
+ * - info: Container details as JSON
+ * - logs: Recent log lines
+ * - file/{path}: Any file in the container (template only, not listed)
+ *
+ * Containers of hosts other than the primary one carry `?host=<name>`.
+ */
+export const AVAILABLE_RESOURCES: ResourceDefinition[] = [
+  containerInfoResource,
+  containerLogsResource,
+  containerFileResource
+];
+
+// Docker actions that add, remove or rename entries of resources/list
+const LIST_ACTIONS = new Set(['create', 'destroy', 'rename']);
+// Docker actions after which a container's resources read differently
+const UPDATE_ACTIONS = /^(create|start|restart|die|stop|kill|oom|pause|unpause|rename|update|destroy|health_status)\b/;
+
+function resourceUri(container: string, path: string, host: string, primary: string): string {
+  return `container://${encodeURIComponent(container)}/${path}${host === primary ? '' : `?host=${encodeURIComponent(host)}`}`;
+}
+
+/**
+ * Container and host a resource URI refers to.
+ */
+function parseResourceUri(uri: string): { container: string; host?: string } | undefined {
+  const match = uri.match(/^container:\/\/([^/?]+)\/[^?]*(?:\?host=([^&]+))?$/);
+  if (!match) return undefined;
+  return { container: decodeURIComponent(match[1]), host: match[2] ? decodeURIComponent(match[2]) : undefined };
+}
+
+function variable(value: string | string[] | undefined): string {
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value ?? '');
+}
+
+/**
+ * Register the container resources on an MCP server and keep its
+ * subscribers informed: containers being created, removed or renamed send
+ * `resources/list_changed`, and state changes send `resources/updated` for
+ * subscribed resources of that container.
+ *
+ * Resources need the `read` scope and follow the access policy and the
+ * caller's container allowlist like the tools do. Reads pass the limiter,
+ * are redacted and are written to the audit log.
+ */
+export function registerResources(server: McpServer, context: ToolContext, transport: AuditTransport, auth?: AuthInfo): void {
+  if (!hasScope(auth, 'read')) return;
+
+  const { primary } = context.hosts;
+  server.server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+
+  // Other hosts first: the primary host's file template would also match their URIs
+  const hosts = [...context.hosts.names.filter(name => name !== primary), primary];
+  for (const host of hosts) {
+    for (const resource of AVAILABLE_RESOURCES) {
+      const list = resource.listed
+        ? async (extra: { authInfo?: AuthInfo }) => {
+          const { runtime, policy } = selectHost({ ...context, auth: extra.authInfo }, host);
+          try {
+            const containers = policy.filter(await runtime.listContainers({ all: true }));
+            return {
+              resources: containers.map(container => {
+                const name = (container.Names?.[0] ?? container.Id.slice(0, 12)).replace(/^\//, '');
+                return {
+                  uri: resourceUri(name, resource.path, host, primary),
+                  name: `${name}/${resource.path}`,
+                  description: `${container.Image} (${container.State})${host === primary ? '' : ` on ${host}`}`
+                };
+              })
+            };
+          } catch (error) {
+            // An unreachable host does not hide the resources of the others
+            console.error(`Failed to list resources of host ${host}:`, error instanceof Error ? error.message : error);
+            return { resources: [] };
+          }
+        }
+        : undefined;
+
+      server.registerResource(
+        host === primary ? resource.name : `${resource.name}@${host}`,
+        new ResourceTemplate(`container://{name}/${resource.path}${host === primary ? '' : `?host=${host}`}`, { list }),
+        {
+          description: host === primary ? resource.description : `${resource.description} (host ${host})`,
+          mimeType: resource.mimeType
+        },
+        async (uri, variables, extra): Promise<ReadResourceResult> => {
+          const startedAt = Date.now();
+          const container = variable(variables.name);
+          const caller = extra.authInfo?.clientId ?? (transport === 'stdio' ? 'stdio' : 'anonymous');
+          let outputBytes = 0;
+          let error: unknown;
+
+          try {
+            if (!hasScope(extra.authInfo, 'read')) {
+              throw new Error(`${extra.authInfo!.clientId} lacks the 'read' scope required by resources`);
+            }
+            context.limiter.admit(caller);
+            const hostContext = selectHost({ ...context, auth: extra.authInfo }, host);
+            const content = await resource.read(
+              container,
+              Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, variable(value)])),
+              hostContext
+            );
+            outputBytes = Buffer.byteLength(content.text ?? content.blob ?? '');
+            return {
+              contents: [content.text !== undefined
+                ? { uri: uri.href, mimeType: content.mimeType, text: context.redactor.redact(content.text) }
+                : { uri: uri.href, mimeType: content.mimeType, blob: content.blob ?? '' }]
+            };
+          } catch (caught) {
+            error = caught;
+            throw new Error(context.redactor.redact(caught instanceof Error ? caught.message : String(caught)));
+          } finally {
+            context.audit.record({
+              timestamp: new Date(startedAt).toISOString(),
+              transport,
+              caller,
+              tool: `resource:${resource.name}`,
+              host,
+              containers: [container],
+              arguments: { uri: uri.href },
+              isError: error !== undefined,
+              durationMs: Date.now() - startedAt,
+              outputBytes,
+              error: error !== undefined ? context.redactor.redact(error instanceof Error ? error.message : String(error)).split('\n')[0] : undefined
+            });
+          }
+        }
+      );
+    }
+  }
+
+  const subscriptions = new Set<string>();
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    // Updates would otherwise tell a caller about containers it cannot read
+    const target = parseResourceUri(request.params.uri);
+    if (!target) {
+      throw new Error(`Not a container resource: ${request.params.uri}`);
+    }
+    const { policy } = selectHost({ ...context, auth: extra.authInfo }, target.host ?? primary);
+    await policy.assertAccess(target.container);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const unsubscribers = context.hosts.names.map(host => {
+    const { policy, events } = selectHost({ ...context, auth }, host);
+    return events.subscribe(event => {
+      if (!policy.evaluate(eventTarget(event)).allowed) return;
+      if (LIST_ACTIONS.has(event.action)) {
+        server.sendResourceListChanged();
+      }
+      if (!UPDATE_ACTIONS.test(event.action)) return;
+
+      for (const uri of subscriptions) {
+        const target = parseResourceUri(uri);
+        if (!target || (target.host ?? primary) !== host) continue;
+        const byId = /^[0-9a-f]{12,64}$/.test(target.container) && event.id.startsWith(target.container);
+        if (target.container === event.name || byId) {
+          server.server.sendResourceUpdated({ uri }).catch(() => undefined);
+        }
+      }
+    });
+  });
+
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    onclose?.();
+  };
+}
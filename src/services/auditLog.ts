@@ -0,0 +1,233 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { matchesGlob } from '../utils/matchUtils.js';
+import { parseTime } from '../utils/timeUtils.js';
+
+export type AuditTransport = 'http' | 'stdio';
+
+export interface AuditRecord {
+  timestamp: string;
+  transport: AuditTransport;
+  /** Token identity for HTTP, `stdio` for the stdio server, `anonymous` without authentication */
+  caller: string;
+  tool: string;
+  host: string;
+  /** Container IDs or names the call targeted */
+  containers: string[];
+  /** Call arguments with secrets and long values replaced */
+  arguments: Record<string, unknown>;
+  isError: boolean;
+  exitCode?: number;
+  durationMs: number;
+  /** Bytes of text returned to the client */
+  outputBytes: number;
+  /** First line of the error message of failed calls */
+  error?: string;
+}
+
+export interface AuditQuery {
+  /** Unix seconds */
+  since?: number;
+  /** Unix seconds */
+  until?: number;
+  /** Glob matched against the targeted containers */
+  container?: string;
+  /** Glob matched against the tool name */
+  tool?: string;
+  caller?: string;
+  /** `success`: no error and exit code 0 (or none); `failure`: everything else */
+  status?: 'success' | 'failure';
+  exitCode?: number;
+  /** Most recent matching records returned (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Query filters as given by audit_query and the HTTP endpoint.
+ */
+export interface AuditQueryParams {
+  since?: string;
+  until?: string;
+  container?: string;
+  tool?: string;
+  caller?: string;
+  status?: 'success' | 'failure';
+  exit_code?: number;
+  limit?: number;
+}
+
+export interface AuditLogOptions {
+  /** JSONL file to append to; auditing is disabled without it */
+  file?: string;
+  /** Rotate once the file reaches this size (default: 10 MiB) */
+  maxBytes?: number;
+  /** Rotated files kept as `<file>.1` (newest) to `<file>.<maxFiles>` (default: 5) */
+  maxFiles?: number;
+}
+
+// Argument names whose values are never written to the log
+const SECRET_KEY = /passw(or)?d|secret|token|api[_-]?key|credential|private[_-]?key|^auth/i;
+// Longer string arguments (file contents, diffs) are cut to this many characters
+const MAX_ARGUMENT_LENGTH = 1024;
+
+function redactValue(key: string, value: unknown): unknown {
+  if (SECRET_KEY.test(key) && value !== undefined && value !== null && value !== '') {
+    return '[REDACTED]';
+  }
+  if (typeof value === 'string') {
+    // KEY=value pairs, e.g. env entries
+    const assignment = value.match(/^([A-Za-z_][A-Za-z0-9_]*)=/);
+    if (assignment && SECRET_KEY.test(assignment[1])) {
+      return `${assignment[1]}=[REDACTED]`;
+    }
+    if (value.length > MAX_ARGUMENT_LENGTH) {
+      return `${value.slice(0, MAX_ARGUMENT_LENGTH)}[... ${value.length - MAX_ARGUMENT_LENGTH} more characters]`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(key, item));
+  }
+  if (value && typeof value === 'object') {
+    return redactArguments(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+/**
+ * Copy of tool arguments safe to log: values of secret-looking keys and
+ * `KEY=value` entries are replaced and long strings are shortened.
+ */
+export function redactArguments(args: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, redactValue(key, value)]));
+}
+
+/**
+ * Parse query filters; times may be ISO timestamps, Unix seconds or durations like `12h`.
+ */
+export function toAuditQuery(params: AuditQueryParams): AuditQuery {
+  return {
+    since: params.since ? parseTime(params.since, 'since') : undefined,
+    until: params.until ? parseTime(params.until, 'until') : undefined,
+    container: params.container,
+    tool: params.tool,
+    caller: params.caller,
+    status: params.status,
+    exitCode: params.exit_code,
+    limit: params.limit
+  };
+}
+
+function matches(record: AuditRecord, query: AuditQuery): boolean {
+  const time = Date.parse(record.timestamp) / 1000;
+  if (query.since !== undefined && time < query.since) return false;
+  if (query.until !== undefined && time > query.until) return false;
+  if (query.tool && !matchesGlob(record.tool, query.tool)) return false;
+  if (query.caller && record.caller !== query.caller) return false;
+  if (query.container && !record.containers.some(container => matchesGlob(container, query.container!))) return false;
+  if (query.exitCode !== undefined && record.exitCode !== query.exitCode) return false;
+  if (query.status) {
+    const success = !record.isError && (record.exitCode === undefined || record.exitCode === 0);
+    if ((query.status === 'success') !== success) return false;
+  }
+  return true;
+}
+
+/**
+ * Append-only JSONL trail of tool calls with size-based rotation.
+ *
+ * Writes are queued so records stay in call order and a slow disk never
+ * delays a tool result; a failed write is reported on stderr and does not
+ * fail the call.
+ */
+export class AuditLog {
+  private readonly file?: string;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+  private size = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: AuditLogOptions = {}) {
+    this.file = options.file ? path.resolve(options.file) : undefined;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = Math.max(options.maxFiles ?? 5, 1);
+
+    if (this.file) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      this.size = fs.existsSync(this.file) ? fs.statSync(this.file).size : 0;
+    }
+  }
+
+  get enabled(): boolean {
+    return this.file !== undefined;
+  }
+
+  record(record: AuditRecord): void {
+    if (!this.file) return;
+    const line = JSON.stringify(record) + '\n';
+
+    this.queue = this.queue.then(async () => {
+      if (this.size > 0 && this.size + Buffer.byteLength(line) > this.maxBytes) {
+        await this.rotate();
+      }
+      await fs.promises.appendFile(this.file!, line);
+      this.size += Buffer.byteLength(line);
+    }).catch((error) => {
+      console.error('Failed to write audit record:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  /**
+   * Most recent records matching the query, oldest first. Rotated files are
+   * searched too.
+   */
+  async query(query: AuditQuery = {}): Promise<AuditRecord[]> {
+    if (!this.file) {
+      throw new Error('The audit log is disabled. Set MCP_AUDIT_LOG to a file path to enable it.');
+    }
+    // Include records that are still queued
+    await this.queue;
+
+    const limit = query.limit ?? 100;
+    const results: AuditRecord[] = [];
+    for (const file of this.files()) {
+      const lines = readline.createInterface({ input: fs.createReadStream(file), crlfDelay: Infinity });
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(line) as AuditRecord;
+        } catch {
+          continue;
+        }
+        if (!matches(record, query)) continue;
+        results.push(record);
+        if (results.length > limit) results.shift();
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Existing log files, oldest first.
+   */
+  private files(): string[] {
+    const files: string[] = [];
+    for (let i = this.maxFiles; i >= 1; i--) {
+      files.push(`${this.file}.${i}`);
+    }
+    files.push(this.file!);
+    return files.filter(file => fs.existsSync(file));
+  }
+
+  private async rotate(): Promise<void> {
+    const file = this.file!;
+    await fs.promises.rm(`${file}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      await fs.promises.rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => undefined);
+    }
+    await fs.promises.rename(file, `${file}.1`);
+    this.size = 0;
+  }
+}
@@ -0,0 +1,173 @@
+import fs from 'fs';
+import { createHash, timingSafeEqual } from 'crypto';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { JwtVerifier, type JwtPayload, type JwtVerifierOptions } from './jwtVerifier.js';
+
+/**
+ * Permissions a token can carry. Every tool requires exactly one of them.
+ * - `read`: list, inspect, logs, stats, reading files and job output
+ * - `exec`: commands, background jobs and shell sessions
+ * - `lifecycle`: start, stop, remove containers and create sandboxes
+ * - `files:write`: write, edit and copy files into containers
+ * - `images:write`: build images and pull them from allowed registries
+ */
+export type Scope = 'read' | 'exec' | 'lifecycle' | 'files:write' | 'images:write';
+
+export const ALL_SCOPES: Scope[] = ['read', 'exec', 'lifecycle', 'files:write', 'images:write'];
+
+export interface TokenConfig {
+  /** Identity shown in logs and the audit trail as `token:<name>` */
+  name: string;
+  /** Hex SHA-256 of the token, e.g. from `printf %s "$TOKEN" | sha256sum` */
+  sha256: string;
+  scopes: Scope[];
+  /** Container name globs the token may access (default: all the server policy allows) */
+  containers?: string[];
+}
+
+export interface JwtConfig extends JwtVerifierOptions {
+  /** Claim with the scopes, a space separated string or an array (default: `scope`) */
+  scopeClaim?: string;
+  /** Claim with the container name globs (default: `containers`) */
+  containersClaim?: string;
+}
+
+/**
+ * Tokens file format for MCP_AUTH_TOKENS_FILE.
+ */
+export interface AuthTokensFile {
+  tokens?: TokenConfig[];
+  jwt?: JwtConfig;
+}
+
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+function parseScopes(value: unknown): Scope[] {
+  const scopes = typeof value === 'string' ? value.split(/\s+/) : Array.isArray(value) ? value.map(String) : [];
+  return ALL_SCOPES.filter(scope => scopes.includes(scope));
+}
+
+/**
+ * Whether a caller may use a tool. Calls without auth info (stdio, HTTP
+ * without authentication) may use everything.
+ */
+export function hasScope(auth: AuthInfo | undefined, scope: Scope): boolean {
+  return !auth || auth.scopes.includes(scope);
+}
+
+/**
+ * Container name globs a caller is limited to, if any.
+ */
+export function allowedContainers(auth: AuthInfo | undefined): string[] | undefined {
+  const containers = auth?.extra?.containers;
+  return Array.isArray(containers) ? containers.map(String) : undefined;
+}
+
+/**
+ * Checks HTTP bearer tokens.
+ *
+ * Accepts the single `MCP_AUTH_TOKEN` (all scopes), named tokens from
+ * `MCP_AUTH_TOKENS_FILE` whose SHA-256 hashes are stored instead of the
+ * secrets, and JWTs signed by a key in the configured JWKS. Token hashes are
+ * compared in constant time against every configured token.
+ */
+export class Authenticator {
+  private readonly tokens: Array<TokenConfig & { hash: Buffer }>;
+  private readonly jwt?: JwtVerifier;
+
+  constructor(tokens: TokenConfig[] = [], private readonly jwtConfig?: JwtConfig) {
+    this.tokens = tokens.map(token => {
+      if (!/^[0-9a-f]{64}$/i.test(token.sha256 ?? '')) {
+        throw new Error(`Token '${token.name}': sha256 must be 64 hex digits`);
+      }
+      const unknown = (token.scopes ?? []).filter(scope => !ALL_SCOPES.includes(scope));
+      if (unknown.length > 0) {
+        throw new Error(`Token '${token.name}': unknown scopes ${unknown.join(', ')} (use ${ALL_SCOPES.join(', ')})`);
+      }
+      return { ...token, scopes: token.scopes ?? [], hash: Buffer.from(token.sha256, 'hex') };
+    });
+    this.jwt = jwtConfig ? new JwtVerifier(jwtConfig) : undefined;
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Authenticator {
+    const tokens: TokenConfig[] = [];
+    if (env.MCP_AUTH_TOKEN) {
+      tokens.push({
+        // Same identity as before named tokens existed, so audit queries keep working
+        name: createHash('sha256').update(env.MCP_AUTH_TOKEN).digest('hex').slice(0, 8),
+        sha256: createHash('sha256').update(env.MCP_AUTH_TOKEN).digest('hex'),
+        scopes: ALL_SCOPES
+      });
+    }
+
+    let file: AuthTokensFile = {};
+    if (env.MCP_AUTH_TOKENS_FILE) {
+      file = JSON.parse(fs.readFileSync(env.MCP_AUTH_TOKENS_FILE, 'utf8')) as AuthTokensFile;
+    }
+    return new Authenticator([...tokens, ...(file.tokens ?? [])], file.jwt);
+  }
+
+  get enabled(): boolean {
+    return this.tokens.length > 0 || this.jwt !== undefined;
+  }
+
+  /**
+   * Short description for the startup log.
+   */
+  describe(): string {
+    const parts = [`${this.tokens.length} token${this.tokens.length === 1 ? '' : 's'}`];
+    if (this.jwt) parts.push(`JWT (${this.jwtConfig!.jwks})`);
+    return parts.join(', ');
+  }
+
+  /**
+   * Resolve a presented token to the caller's identity, scopes and
+   * container allowlist. Throws AuthenticationError when it is not valid.
+   */
+  authenticate(token: string): AuthInfo {
+    const hash = sha256(token);
+    let match: TokenConfig | undefined;
+    // No early exit: the time taken does not depend on which token matched
+    for (const candidate of this.tokens) {
+      if (timingSafeEqual(hash, candidate.hash) && !match) {
+        match = candidate;
+      }
+    }
+    if (match) {
+      return {
+        token,
+        clientId: `token:${match.name}`,
+        scopes: match.scopes,
+        extra: match.containers ? { containers: match.containers } : undefined
+      };
+    }
+
+    if (this.jwt && token.split('.').length === 3) {
+      let payload: JwtPayload;
+      try {
+        payload = this.jwt.verify(token);
+      } catch (error) {
+        throw new AuthenticationError(`Invalid JWT: ${error instanceof Error ? error.message : error}`);
+      }
+      const containers = payload[this.jwtConfig!.containersClaim ?? 'containers'];
+      return {
+        token,
+        clientId: `jwt:${payload.sub ?? 'unknown'}`,
+        scopes: parseScopes(payload[this.jwtConfig!.scopeClaim ?? 'scope']),
+        expiresAt: payload.exp,
+        extra: Array.isArray(containers) ? { containers: containers.map(String) } : undefined
+      };
+    }
+
+    throw new AuthenticationError('Invalid authentication token.');
+  }
+}
@@ -0,0 +1,250 @@
+export interface CallLimiterOptions {
+  /** Throttled calls running at once across all containers (default: 16, 0 disables) */
+  maxConcurrent?: number;
+  /** Throttled calls running at once per container (default: 4, 0 disables) */
+  maxPerContainer?: number;
+  /** Calls waiting for a slot before new ones are turned away (default: 100) */
+  maxQueue?: number;
+  /** Seconds a call waits for a slot before it gives up (default: 30) */
+  maxWait?: number;
+  /** Tool calls per minute and caller (default: 120, 0 disables) */
+  rate?: number;
+  /** Calls a caller may make in a burst above the rate (default: 30) */
+  burst?: number;
+}
+
+export interface CallRequest {
+  /** Container keys the call occupies a slot in */
+  containers: string[];
+  /** Aborts the wait, e.g. when the client cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Snapshot of the limiter for limiter_status and debugging.
+ */
+export interface LimiterState {
+  limits: Required<CallLimiterOptions>;
+  active: number;
+  queued: number;
+  containers: Array<{ container: string; active: number; queued: number }>;
+  callers: Array<{ caller: string; tokens: number }>;
+}
+
+/**
+ * A call was turned away; the client should try again after `retryAfter` seconds.
+ */
+export class LimitExceededError extends Error {
+  constructor(message: string, readonly retryAfter: number) {
+    super(`Busy: ${message}. Retry after ${retryAfter} s.`);
+    this.name = 'LimitExceededError';
+  }
+}
+
+interface Waiter {
+  containers: string[];
+  grant: () => void;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Suggested pause after a queue timeout or a full queue; slots free up as commands finish
+const BUSY_RETRY_AFTER = 5;
+
+/**
+ * Keeps a looping agent from flooding the server or a single container.
+ *
+ * Every call first takes a token from its caller's bucket with `admit`,
+ * which refills at `rate` per minute up to `burst`, before it does any work.
+ * Throttled calls (commands and shells)
+ * also need a global slot and a slot in each container they target; when
+ * none is free they wait in a FIFO queue for up to `maxWait` seconds. A
+ * waiting call only blocks later calls for the same containers, not the
+ * whole queue, and those cannot take a slot ahead of it.
+ */
+export class CallLimiter {
+  private readonly limits: Required<CallLimiterOptions>;
+  private active = 0;
+  private readonly perContainer = new Map<string, number>();
+  private queue: Waiter[] = [];
+  private readonly buckets = new Map<string, Bucket>();
+
+  constructor(options: CallLimiterOptions = {}) {
+    this.limits = {
+      maxConcurrent: options.maxConcurrent ?? 16,
+      maxPerContainer: options.maxPerContainer ?? 4,
+      maxQueue: options.maxQueue ?? 100,
+      maxWait: options.maxWait ?? 30,
+      rate: options.rate ?? 120,
+      burst: options.burst ?? 30
+    };
+  }
+
+  /**
+   * Take a token from the caller's bucket, e.g. `token:ci` or `stdio`.
+   * Throws LimitExceededError when the caller is over its rate.
+   */
+  admit(caller: string): void {
+    this.takeToken(caller);
+  }
+
+  /**
+   * Wait for a slot in the given containers. Resolves with a function that
+   * must be called when the call is done; throws LimitExceededError when no
+   * slot became free.
+   */
+  async acquire(request: CallRequest): Promise<() => void> {
+    const containers = request.containers;
+
+    if (!this.fits(containers) || this.queuedAhead(containers, this.queue)) {
+      await this.wait(containers, request.signal);
+    } else {
+      this.occupy(containers);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.free(containers);
+    };
+  }
+
+  state(): LimiterState {
+    const containers = new Map<string, { active: number; queued: number }>();
+    for (const [container, active] of this.perContainer) {
+      containers.set(container, { active, queued: 0 });
+    }
+    for (const waiter of this.queue) {
+      for (const container of waiter.containers) {
+        const entry = containers.get(container) ?? { active: 0, queued: 0 };
+        entry.queued++;
+        containers.set(container, entry);
+      }
+    }
+
+    return {
+      limits: { ...this.limits },
+      active: this.active,
+      queued: this.queue.length,
+      containers: [...containers].map(([container, entry]) => ({ container, ...entry })),
+      callers: [...this.buckets.keys()].map(caller => ({ caller, tokens: Math.floor(this.refill(caller).tokens) }))
+    };
+  }
+
+  private takeToken(caller: string): void {
+    if (this.limits.rate <= 0) return;
+
+    const bucket = this.refill(caller);
+    if (bucket.tokens < 1) {
+      const perSecond = this.limits.rate / 60;
+      throw new LimitExceededError(
+        `rate limit of ${this.limits.rate} calls per minute reached for ${caller}`,
+        Math.max(1, Math.ceil((1 - bucket.tokens) / perSecond))
+      );
+    }
+    bucket.tokens--;
+  }
+
+  private refill(caller: string): Bucket {
+    const now = Date.now();
+    let bucket = this.buckets.get(caller);
+    if (!bucket) {
+      bucket = { tokens: this.limits.burst, updatedAt: now };
+      this.buckets.set(caller, bucket);
+    }
+    const perSecond = this.limits.rate / 60;
+    bucket.tokens = Math.min(this.limits.burst, bucket.tokens + (now - bucket.updatedAt) / 1000 * perSecond);
+    bucket.updatedAt = now;
+    return bucket;
+  }
+
+  private wait(containers: string[], signal?: AbortSignal): Promise<void> {
+    if (this.queue.length >= this.limits.maxQueue) {
+      throw new LimitExceededError(`${this.queue.length} calls are already waiting for a free slot`, BUSY_RETRY_AFTER);
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const leave = (error: Error) => {
+        this.queue = this.queue.filter(entry => entry !== waiter);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+        // Calls queued behind this one may fit now
+        this.grantWaiting();
+      };
+      const onAbort = () => leave(new Error('Cancelled while waiting for a free slot'));
+      const timer = setTimeout(() => leave(new LimitExceededError(
+        `no free slot within ${this.limits.maxWait} s (${this.describeUsage(containers)})`,
+        BUSY_RETRY_AFTER
+      )), this.limits.maxWait * 1000);
+
+      const waiter: Waiter = {
+        containers,
+        grant: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      };
+      signal?.addEventListener('abort', onAbort);
+      this.queue.push(waiter);
+    });
+  }
+
+  private describeUsage(containers: string[]): string {
+    const parts = [`${this.active}/${this.limits.maxConcurrent || '∞'} running in total`];
+    for (const container of containers) {
+      parts.push(`${this.perContainer.get(container) ?? 0}/${this.limits.maxPerContainer || '∞'} in ${container}`);
+    }
+    return parts.join(', ');
+  }
+
+  private fits(containers: string[]): boolean {
+    const { maxConcurrent, maxPerContainer } = this.limits;
+    if (maxConcurrent > 0 && this.active >= maxConcurrent) return false;
+    return maxPerContainer <= 0 || containers.every(container => (this.perContainer.get(container) ?? 0) < maxPerContainer);
+  }
+
+  private queuedAhead(containers: string[], waiters: Waiter[]): boolean {
+    return waiters.some(waiter => waiter.containers.some(container => containers.includes(container)));
+  }
+
+  private occupy(containers: string[]): void {
+    this.active++;
+    for (const container of containers) {
+      this.perContainer.set(container, (this.perContainer.get(container) ?? 0) + 1);
+    }
+  }
+
+  private free(containers: string[]): void {
+    this.active--;
+    for (const container of containers) {
+      const count = (this.perContainer.get(container) ?? 1) - 1;
+      if (count > 0) {
+        this.perContainer.set(container, count);
+      } else {
+        this.perContainer.delete(container);
+      }
+    }
+    this.grantWaiting();
+  }
+
+  private grantWaiting(): void {
+    // Grant waiting calls in order, skipping those whose containers are still full
+    // or have an earlier call still waiting for them
+    const skipped: Waiter[] = [];
+    for (const waiter of [...this.queue]) {
+      if (!this.fits(waiter.containers) || this.queuedAhead(waiter.containers, skipped)) {
+        skipped.push(waiter);
+        continue;
+      }
+      this.queue = this.queue.filter(entry => entry !== waiter);
+      this.occupy(waiter.containers);
+      waiter.grant();
+    }
+  }
+}
@@ -0,0 +1,286 @@
+import fs from 'fs';
+import { ElicitResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolExtra } from '../shared/types.js';
+import { matchesGlob, parseList } from '../utils/matchUtils.js';
+
+export type GuardRuleKind = 'deny' | 'confirm' | 'read-only';
+
+export interface GuardRule {
+  name: string;
+  pattern: string;
+  description?: string;
+}
+
+export interface GuardDecision {
+  action: 'allow' | 'deny' | 'confirm';
+  kind?: GuardRuleKind;
+  rule?: GuardRule;
+  reason: string;
+}
+
+export interface CommandGuardConfig {
+  deny: GuardRule[];
+  confirm: GuardRule[];
+  readOnly: {
+    /** Apply read-only mode to every container */
+    global: boolean;
+    /** Container name globs that are read-only */
+    containers: string[];
+    /** Commands permitted in read-only mode (first words, e.g. `ls` or `git status`) */
+    allow: string[];
+  };
+}
+
+/**
+ * Rules file format for MCP_GUARD_RULES_FILE. Everything is optional and
+ * extends the built-in defaults.
+ */
+interface GuardRulesFile {
+  deny?: GuardRule[];
+  confirm?: GuardRule[];
+  readOnly?: Partial<CommandGuardConfig['readOnly']>;
+}
+
+export const DEFAULT_DENY_RULES: GuardRule[] = [
+  { name: 'rm-root', pattern: '\\brm\\s+(-[a-zA-Z]*\\s+)*-[a-zA-Z]*[rR][a-zA-Z]*\\s+(-[a-zA-Z]+\\s+)*(--no-preserve-root\\s+)?/(\\*)?(\\s|$|;|&|\\|)', description: 'Recursive delete of the root filesystem' },
+  { name: 'shutdown', pattern: '\\b(shutdown|reboot|halt|poweroff)\\b|\\binit\\s+[06]\\b', description: 'Shutting down or rebooting the machine' },
+  { name: 'pipe-to-shell', pattern: '\\b(curl|wget)\\b[^|]*\\|\\s*(sudo\\s+)?(ba|z|da)?sh\\b', description: 'Piping a download straight into a shell' },
+  { name: 'mkfs', pattern: '\\bmkfs(\\.\\w+)?\\b', description: 'Formatting a filesystem' },
+  { name: 'dd-device', pattern: '\\bdd\\b.*\\bof=/dev/(sd|nvme|hd|vd|xvd)', description: 'Writing raw data to a block device' },
+  { name: 'fork-bomb', pattern: ':\\(\\)\\s*\\{\\s*:\\s*\\|\\s*:\\s*&\\s*\\}\\s*;\\s*:', description: 'Fork bomb' }
+];
+
+export const DEFAULT_CONFIRM_RULES: GuardRule[] = [
+  { name: 'recursive-delete', pattern: '\\brm\\s+(-[a-zA-Z]*\\s+)*-[a-zA-Z]*[rR]', description: 'Recursive delete' },
+  { name: 'force-push', pattern: '\\bgit\\s+push\\b.*(--force\\b|\\s-f\\b)', description: 'Force-pushing git history' },
+  { name: 'git-reset-hard', pattern: '\\bgit\\s+(reset\\s+--hard|clean\\s+-[a-zA-Z]*f)', description: 'Discarding uncommitted git changes' },
+  { name: 'package-publish', pattern: '\\b(npm|pnpm|yarn)\\s+publish\\b', description: 'Publishing a package' },
+  { name: 'kill-all', pattern: '\\b(killall|pkill)\\b|\\bkill\\s+-9\\s+-1\\b', description: 'Killing processes by name' }
+];
+
+export const DEFAULT_READ_ONLY_COMMANDS = [
+  'ls', 'cat', 'head', 'tail', 'grep', 'egrep', 'rg', 'find', 'pwd', 'whoami', 'id',
+  'printenv', 'ps', 'top -b', 'df', 'du', 'free', 'stat', 'wc', 'echo', 'uname', 'which',
+  'uptime', 'cut', 'diff', 'test', 'true',
+  'git status', 'git log', 'git diff', 'git show', 'git remote -v', 'git rev-parse'
+];
+
+// Arguments that make otherwise harmless inspection commands write or run things
+const READ_ONLY_FORBIDDEN_ARGS = [
+  '-delete', '-exec', '-execdir', '-ok', '-okdir', '-fprint', '-fprint0', '-fprintf', '-fls', '--output',
+  '--pre', '--pre-glob'
+];
+
+/**
+ * Split a shell command into simple commands at unquoted `;`, `&`, `|` and
+ * newlines. Returns undefined when the command writes files or runs nested
+ * commands (unquoted redirection, `$(...)` or backticks), which read-only
+ * mode never allows.
+ */
+function splitSimpleCommands(command: string): string[] | undefined {
+  const segments: string[] = [];
+  let current = '';
+  let quote: '\'' | '"' | undefined;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote) {
+      if (quote === '"' && char === '\\') {
+        current += char + (command[i + 1] ?? '');
+        i++;
+        continue;
+      }
+      if (char === quote) quote = undefined;
+      // Command substitution still runs inside double quotes
+      if (quote === '"' && (char === '`' || (char === '$' && command[i + 1] === '('))) return undefined;
+      current += char;
+      continue;
+    }
+
+    if (char === '\\') {
+      current += char + (command[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '\'' || char === '"') {
+      quote = char;
+      current += char;
+      continue;
+    }
+    if (char === '>' || char === '`' || (char === '$' && command[i + 1] === '(') || (char === '<' && command[i + 1] === '(')) {
+      return undefined;
+    }
+    if (char === ';' || char === '&' || char === '|' || char === '\n') {
+      if (current.trim()) segments.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) segments.push(current.trim());
+  return segments;
+}
+
+/**
+ * Checks commands before they are executed in a container.
+ *
+ * Deny rules always block. In read-only mode every simple command in the
+ * pipeline must start with an allowlisted inspection command. Commands
+ * matching a confirm rule only run after the user approves them through MCP
+ * elicitation.
+ */
+export class CommandGuard {
+  private readonly deny: Array<GuardRule & { regex: RegExp }>;
+  private readonly confirm: Array<GuardRule & { regex: RegExp }>;
+
+  constructor(private readonly config: CommandGuardConfig) {
+    this.deny = config.deny.map(rule => ({ ...rule, regex: new RegExp(rule.pattern, 'i') }));
+    this.confirm = config.confirm.map(rule => ({ ...rule, regex: new RegExp(rule.pattern, 'i') }));
+  }
+
+  /**
+   * Build the guard from the defaults, MCP_READ_ONLY, MCP_READ_ONLY_CONTAINERS
+   * and an optional JSON rules file in MCP_GUARD_RULES_FILE.
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): CommandGuard {
+    let file: GuardRulesFile = {};
+    if (env.MCP_GUARD_RULES_FILE) {
+      file = JSON.parse(fs.readFileSync(env.MCP_GUARD_RULES_FILE, 'utf8')) as GuardRulesFile;
+    }
+
+    return new CommandGuard({
+      deny: [...DEFAULT_DENY_RULES, ...(file.deny ?? [])],
+      confirm: [...DEFAULT_CONFIRM_RULES, ...(file.confirm ?? [])],
+      readOnly: {
+        global: env.MCP_READ_ONLY === 'true' || file.readOnly?.global === true,
+        containers: [...parseList(env.MCP_READ_ONLY_CONTAINERS), ...(file.readOnly?.containers ?? [])],
+        allow: file.readOnly?.allow ?? DEFAULT_READ_ONLY_COMMANDS
+      }
+    });
+  }
+
+  isReadOnly(containerNames: string[]): boolean {
+    const { readOnly } = this.config;
+    return readOnly.global || containerNames.some(name => readOnly.containers.some(pattern => matchesGlob(name, pattern)));
+  }
+
+  /**
+   * Decide what to do with a command. `containerNames` are the names and IDs
+   * the target container is known by, used for per-container read-only mode.
+   */
+  check(command: string, containerNames: string[]): GuardDecision {
+    for (const rule of this.deny) {
+      if (rule.regex.test(command)) {
+        return { action: 'deny', kind: 'deny', rule: this.describe(rule), reason: rule.description ?? `Command matches deny rule '${rule.name}'` };
+      }
+    }
+
+    if (this.isReadOnly(containerNames)) {
+      const segments = splitSimpleCommands(command);
+      if (!segments) {
+        return {
+          action: 'deny',
+          kind: 'read-only',
+          reason: 'Container is read-only: redirections and command substitution are not allowed'
+        };
+      }
+      for (const segment of segments) {
+        if (!this.isReadOnlyCommand(segment)) {
+          return {
+            action: 'deny',
+            kind: 'read-only',
+            reason: `Container is read-only: '${segment.split(/\s+/)[0]}' is not an allowed inspection command`
+          };
+        }
+      }
+    }
+
+    for (const rule of this.confirm) {
+      if (rule.regex.test(command)) {
+        return { action: 'confirm', kind: 'confirm', rule: this.describe(rule), reason: rule.description ?? `Command matches confirm rule '${rule.name}'` };
+      }
+    }
+
+    return { action: 'allow', reason: 'No rule matched' };
+  }
+
+  /**
+   * Check a command and, for confirm rules, ask the user through elicitation.
+   * Resolves with an `allow` or `deny` decision.
+   */
+  async authorize(command: string, containerNames: string[], extra?: ToolExtra): Promise<GuardDecision> {
+    const decision = this.check(command, containerNames);
+    if (decision.action !== 'confirm') return decision;
+
+    if (!extra) {
+      return { ...decision, action: 'deny', reason: `${decision.reason} requires confirmation, but no client is available to ask` };
+    }
+
+    try {
+      const result = await extra.sendRequest({
+        method: 'elicitation/create',
+        params: {
+          message: `The agent wants to run a command that needs confirmation (${decision.reason}) in ${containerNames[0]}:\n\n${command}`,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              approve: {
+                type: 'boolean',
+                title: 'Run this command?',
+                description: decision.reason
+              }
+            },
+            required: ['approve']
+          }
+        }
+      }, ElicitResultSchema);
+
+      if (result.action === 'accept' && result.content?.approve === true) {
+        return { ...decision, action: 'allow', reason: `${decision.reason} approved by the user` };
+      }
+      return { ...decision, action: 'deny', reason: `${decision.reason} was not approved by the user` };
+    } catch (error) {
+      return {
+        ...decision,
+        action: 'deny',
+        reason: `${decision.reason} requires confirmation, but the client could not be asked (${error instanceof Error ? error.message : 'Unknown error'})`
+      };
+    }
+  }
+
+  private isReadOnlyCommand(segment: string): boolean {
+    const words = segment.split(/\s+/).filter(Boolean);
+    if (words.length === 0) return true;
+    // Leading assignments such as LD_PRELOAD or GIT_EXTERNAL_DIFF can make any command run code
+    if (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0])) return false;
+    // The shell removes quotes and escapes, so "-delete" and \-delete are -delete
+    const unquoted = words.map(word => word.replace(/\\(.)/g, '$1').replace(/["'\\]/g, ''));
+    if (unquoted.some(word => READ_ONLY_FORBIDDEN_ARGS.some(arg => word === arg || word.startsWith(`${arg}=`)))) return false;
+
+    return this.config.readOnly.allow.some(entry => {
+      const allowed = entry.split(/\s+/);
+      return allowed.every((word, index) => words[index] === word);
+    });
+  }
+
+  private describe(rule: GuardRule & { regex: RegExp }): GuardRule {
+    return { name: rule.name, pattern: rule.pattern, description: rule.description };
+  }
+}
+
+/**
+ * Render a refused command for the tool response.
+ */
+export function formatGuardRefusal(command: string, decision: GuardDecision): string {
+  let output = `Command blocked by guardrails\n${'='.repeat(80)}\n\n`;
+  output += `Command: ${command}\n`;
+  output += `Check:   ${decision.kind}\n`;
+  if (decision.rule) {
+    output += `Rule:    ${decision.rule.name}\n`;
+    output += `Pattern: ${decision.rule.pattern}\n`;
+  }
+  output += `Reason:  ${decision.reason}`;
+  return output;
+}
@@ -0,0 +1,158 @@
+import type Docker from 'dockerode';
+import type { Readable } from 'stream';
+import type { PolicyTarget } from './containerPolicy.js';
+
+export interface ContainerEvent {
+  /** Docker action, e.g. `start`, `die`, `rename`, `health_status: healthy` */
+  action: string;
+  id: string;
+  name: string;
+  labels: Record<string, string>;
+  /** Unix seconds */
+  time: number;
+}
+
+export type ContainerEventListener = (event: ContainerEvent) => void;
+
+export interface ContainerEventWatcherOptions {
+  /** Seconds between reconnection attempts after the event stream failed (default: 30) */
+  retryInterval?: number;
+}
+
+interface DockerEventMessage {
+  Type?: string;
+  Action?: string;
+  time?: number;
+  Actor?: { ID?: string; Attributes?: Record<string, string> };
+}
+
+// Attributes Docker adds next to the container labels
+const EVENT_ATTRIBUTES = new Set(['name', 'image', 'exitCode', 'signal', 'oldName', 'execID']);
+
+/**
+ * Policy target for the container an event is about.
+ */
+export function eventTarget(event: ContainerEvent): PolicyTarget {
+  return { id: event.id, names: [event.name], labels: event.labels };
+}
+
+/**
+ * Follows the Docker event stream of one host and passes container events
+ * on to its listeners.
+ *
+ * Exec events are dropped: every command run through the tools produces
+ * them and they say nothing about the container itself. When the stream
+ * breaks it is reopened from the time of the last event so nothing is missed.
+ */
+export class ContainerEventWatcher {
+  private listeners = new Set<ContainerEventListener>();
+  private stream?: Readable;
+  private retryTimer?: NodeJS.Timeout;
+  private running = false;
+  private failing = false;
+  private lastEventTime?: number;
+  private readonly retryInterval: number;
+
+  constructor(private readonly docker: Docker, private readonly host: string, options: ContainerEventWatcherOptions = {}) {
+    this.retryInterval = options.retryInterval ?? 30;
+  }
+
+  /**
+   * Add a listener; returns a function that removes it again.
+   */
+  subscribe(listener: ContainerEventListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  stop(): void {
+    this.running = false;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.stream?.destroy();
+    this.stream = undefined;
+  }
+
+  private async connect(): Promise<void> {
+    try {
+      const stream = await this.docker.getEvents({
+        since: this.lastEventTime,
+        filters: { type: ['container'] }
+      }) as unknown as Readable;
+      if (!this.running) {
+        stream.destroy();
+        return;
+      }
+      this.stream = stream;
+      if (this.failing) {
+        console.error(`Docker events of host ${this.host}: reconnected`);
+        this.failing = false;
+      }
+
+      let buffer = '';
+      stream.on('data', (chunk: Buffer) => {
+        buffer += chunk.toString('utf8');
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          if (line.trim()) this.dispatch(line);
+        }
+      });
+      stream.on('error', (error: Error) => this.retry(error));
+      stream.on('end', () => this.retry(new Error('event stream ended')));
+    } catch (error) {
+      this.retry(error);
+    }
+  }
+
+  private retry(error: unknown): void {
+    this.stream = undefined;
+    if (!this.running || this.retryTimer) return;
+    // Only the first failure of a series is logged
+    if (!this.failing) {
+      console.error(`Docker events of host ${this.host} failed, retrying every ${this.retryInterval}s:`, error instanceof Error ? error.message : error);
+      this.failing = true;
+    }
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      this.connect();
+    }, this.retryInterval * 1000);
+    this.retryTimer.unref();
+  }
+
+  private dispatch(line: string): void {
+    let message: DockerEventMessage;
+    try {
+      message = JSON.parse(line) as DockerEventMessage;
+    } catch {
+      return;
+    }
+    if (message.Type !== 'container' || !message.Action || !message.Actor?.ID || message.Action.startsWith('exec_')) {
+      return;
+    }
+
+    const attributes = message.Actor.Attributes ?? {};
+    const event: ContainerEvent = {
+      action: message.Action,
+      id: message.Actor.ID,
+      name: attributes.name ?? '',
+      labels: Object.fromEntries(Object.entries(attributes).filter(([key]) => !EVENT_ATTRIBUTES.has(key))),
+      time: message.time ?? Math.floor(Date.now() / 1000)
+    };
+    this.lastEventTime = event.time;
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Container event listener failed:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import type Docker from 'dockerode';
+import type { ContainerRuntime, RuntimeContainer } from './containerRuntime.js';
+import { matchesGlob, parseList } from '../utils/matchUtils.js';
+
+export const COMPOSE_PROJECT_LABEL = 'com.docker.compose.project';
+
+export interface ContainerPolicyRules {
+  /** Container name globs, e.g. `dev-*` */
+  names: string[];
+  /** Labels as `key=value` or just `key` to match any value */
+  labels: string[];
+  /** Compose project names (globs) */
+  projects: string[];
+}
+
+export interface ContainerPolicyConfig {
+  allow: ContainerPolicyRules;
+  deny: ContainerPolicyRules;
+}
+
+/**
+ * The parts of a container the policy looks at. Built from either
+ * `listContainers` entries or `inspect` results.
+ */
+export interface PolicyTarget {
+  id: string;
+  names: string[];
+  labels: Record<string, string>;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason: string;
+}
+
+export class ContainerAccessDeniedError extends Error {
+  constructor(containerId: string, reason: string) {
+    super(`Access to container '${containerId}' is denied by policy (${reason})`);
+    this.name = 'ContainerAccessDeniedError';
+  }
+}
+
+const emptyRules = (): ContainerPolicyRules => ({ names: [], labels: [], projects: [] });
+
+function hasRules(rules: ContainerPolicyRules): boolean {
+  return rules.names.length > 0 || rules.labels.length > 0 || rules.projects.length > 0;
+}
+
+/**
+ * Decides which containers the MCP tools may see and touch.
+ *
+ * A container is denied when it matches any deny rule. When allow rules are
+ * configured it must also match at least one of them; with no allow rules
+ * every container that is not denied is accessible.
+ *
+ * Tools must obtain containers through `getContainer`/`assertAccess` rather
+ * than `runtime.getContainer` or `docker.getContainer` so the policy applies
+ * to every tool, and must run
+ * container lists through `filter`.
+ */
+export class ContainerPolicy {
+  constructor(
+    private readonly runtime: ContainerRuntime,
+    private readonly config: ContainerPolicyConfig = { allow: emptyRules(), deny: emptyRules() },
+    private readonly restriction?: { owner: string; names: string[] }
+  ) {}
+
+  /**
+   * Build a policy from MCP_CONTAINER_{ALLOW,DENY}[_LABELS|_PROJECTS] environment variables.
+   */
+  static fromEnv(runtime: ContainerRuntime, env: NodeJS.ProcessEnv = process.env): ContainerPolicy {
+    return new ContainerPolicy(runtime, {
+      allow: {
+        names: parseList(env.MCP_CONTAINER_ALLOW),
+        labels: parseList(env.MCP_CONTAINER_ALLOW_LABELS),
+        projects: parseList(env.MCP_CONTAINER_ALLOW_PROJECTS)
+      },
+      deny: {
+        names: parseList(env.MCP_CONTAINER_DENY),
+        labels: parseList(env.MCP_CONTAINER_DENY_LABELS),
+        projects: parseList(env.MCP_CONTAINER_DENY_PROJECTS)
+      }
+    });
+  }
+
+  /**
+   * A copy of the policy that additionally requires the container name to
+   * match one of `names`, e.g. the container allowlist of an access token.
+   */
+  restrictTo(owner: string, names: string[]): ContainerPolicy {
+    return new ContainerPolicy(this.runtime, this.config, { owner, names });
+  }
+
+  get enabled(): boolean {
+    return hasRules(this.config.allow) || hasRules(this.config.deny) || this.restriction !== undefined;
+  }
+
+  evaluate(target: PolicyTarget): PolicyDecision {
+    const denied = this.match(this.config.deny, target);
+    if (denied) {
+      return { allowed: false, reason: `matches deny ${denied}` };
+    }
+
+    if (this.restriction && !this.restriction.names.some(pattern => target.names.some(name => matchesGlob(name, pattern)))) {
+      return { allowed: false, reason: `not in the container allowlist of ${this.restriction.owner}` };
+    }
+
+    if (!hasRules(this.config.allow)) {
+      return { allowed: true, reason: 'no allow rules configured' };
+    }
+
+    const allowed = this.match(this.config.allow, target);
+    if (allowed) {
+      return { allowed: true, reason: `matches allow ${allowed}` };
+    }
+    return { allowed: false, reason: 'does not match any allow rule' };
+  }
+
+  /**
+   * Inspect a container and throw ContainerAccessDeniedError if the policy refuses it.
+   */
+  async assertAccess(containerId: string): Promise<Docker.ContainerInspectInfo> {
+    const info = await this.runtime.getContainer(containerId).inspect();
+    const decision = this.evaluate(ContainerPolicy.targetFromInspect(info));
+    if (!decision.allowed) {
+      throw new ContainerAccessDeniedError(containerId, decision.reason);
+    }
+    return info;
+  }
+
+  /**
+   * Policy-checked replacement for `runtime.getContainer`.
+   */
+  async getContainer(containerId: string): Promise<RuntimeContainer> {
+    await this.assertAccess(containerId);
+    return this.runtime.getContainer(containerId);
+  }
+
+  /**
+   * Drop the containers the policy does not allow from a `listContainers` result.
+   */
+  filter(containers: Docker.ContainerInfo[]): Docker.ContainerInfo[] {
+    return containers.filter(container => this.evaluate(ContainerPolicy.targetFromListing(container)).allowed);
+  }
+
+  static targetFromInspect(info: Docker.ContainerInspectInfo): PolicyTarget {
+    return {
+      id: info.Id,
+      names: [info.Name.replace(/^\//, '')],
+      labels: info.Config?.Labels ?? {}
+    };
+  }
+
+  static targetFromListing(container: Docker.ContainerInfo): PolicyTarget {
+    return {
+      id: container.Id,
+      names: (container.Names ?? []).map(name => name.replace(/^\//, '')),
+      labels: container.Labels ?? {}
+    };
+  }
+
+  /**
+   * Return a description of the first rule that matches, or undefined.
+   */
+  private match(rules: ContainerPolicyRules, target: PolicyTarget): string | undefined {
+    for (const pattern of rules.names) {
+      if (target.names.some(name => matchesGlob(name, pattern))) {
+        return `name '${pattern}'`;
+      }
+    }
+
+    for (const rule of rules.labels) {
+      const index = rule.indexOf('=');
+      const key = index === -1 ? rule : rule.slice(0, index);
+      const value = index === -1 ? undefined : rule.slice(index + 1);
+      if (key in target.labels && (value === undefined || target.labels[key] === value)) {
+        return `label '${rule}'`;
+      }
+    }
+
+    const project = target.labels[COMPOSE_PROJECT_LABEL];
+    if (project) {
+      for (const pattern of rules.projects) {
+        if (matchesGlob(project, pattern)) {
+          return `compose project '${pattern}'`;
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
@@ -0,0 +1,153 @@
+import { Readable, type Duplex, type Writable } from 'stream';
+import type Docker from 'dockerode';
+import { DockerStreamDemuxer, type DockerStreamType } from '../utils/dockerStream.js';
+
+/**
+ * - `docker`: Docker Engine API, local socket or remote
+ * - `podman`: Podman's Docker compatible API socket
+ * - `local`: host directories or chroots configured in the hosts file
+ */
+export type RuntimeKind = 'docker' | 'podman' | 'local';
+
+export interface RuntimeExecOptions {
+  /** Program and arguments, no shell */
+  cmd: string[];
+  workingDir?: string;
+  user?: string;
+  /** Extra environment variables (KEY=value) */
+  env?: string[];
+  /** Keep stdin open; the caller writes to `stdin` and ends it */
+  stdin?: boolean;
+}
+
+export interface RuntimeExec {
+  id: string;
+  /** Set when started with `stdin` */
+  stdin?: Writable;
+  /** Exit code, once all output has been passed to the callback. Rejects when the stream fails. */
+  exited: Promise<number | null>;
+}
+
+export interface RuntimeLogOptions {
+  stdout: boolean;
+  stderr: boolean;
+  follow: boolean;
+  timestamps?: boolean;
+  tail?: number;
+  /** Unix seconds */
+  since?: number;
+  /** Unix seconds */
+  until?: number;
+}
+
+export interface RuntimeListOptions {
+  all?: boolean;
+  /** Docker list filters; the local runtime supports `label` and `name` */
+  filters?: Record<string, string[]>;
+}
+
+/**
+ * One container of a runtime: the operations the exec, file and log tools
+ * need, with the same archive conventions as Docker's API (a file's archive
+ * holds one entry named after it, a directory's holds it and its contents).
+ */
+export interface RuntimeContainer {
+  readonly id: string;
+  /** Commands see the container's filesystem at `/`, so container paths can be passed to them */
+  readonly commandsSeeRoot: boolean;
+  inspect(): Promise<Docker.ContainerInspectInfo>;
+  exec(options: RuntimeExecOptions, onOutput: (stream: DockerStreamType, text: string) => void): Promise<RuntimeExec>;
+  /** Raw log stream: multiplexed like exec output unless the container has a TTY */
+  logs(options: RuntimeLogOptions): Promise<Readable>;
+  getArchive(path: string): Promise<Readable>;
+  putArchive(archive: Buffer | Readable, options: { path: string; copyUIDGID?: boolean }): Promise<void>;
+}
+
+/**
+ * Where a host's containers live. Listing and inspection return Docker's
+ * shapes for every runtime so formatting and the access policy work alike.
+ * Image, lifecycle, sandbox and snapshot tools still use the Docker client
+ * directly and are only offered on `docker` and `podman` hosts.
+ */
+export interface ContainerRuntime {
+  readonly kind: RuntimeKind;
+  listContainers(options?: RuntimeListOptions): Promise<Docker.ContainerInfo[]>;
+  getContainer(containerId: string): RuntimeContainer;
+}
+
+class DockerContainer implements RuntimeContainer {
+  readonly commandsSeeRoot = true;
+
+  constructor(private readonly container: Docker.Container) {}
+
+  get id(): string {
+    return this.container.id;
+  }
+
+  inspect(): Promise<Docker.ContainerInspectInfo> {
+    return this.container.inspect();
+  }
+
+  async exec(options: RuntimeExecOptions, onOutput: (stream: DockerStreamType, text: string) => void): Promise<RuntimeExec> {
+    const exec = await this.container.exec({
+      Cmd: options.cmd,
+      AttachStdin: Boolean(options.stdin),
+      AttachStdout: true,
+      AttachStderr: true,
+      Tty: false,
+      WorkingDir: options.workingDir,
+      User: options.user,
+      Env: options.env
+    });
+
+    const stream = options.stdin
+      ? await exec.start({ hijack: true, stdin: true }) as Duplex
+      : await exec.start({ Detach: false, Tty: false });
+
+    // Docker multiplexes stdout and stderr on one stream
+    const demuxer = new DockerStreamDemuxer(onOutput);
+    stream.on('data', (chunk: Buffer) => demuxer.push(chunk));
+    const exited = new Promise<number | null>((resolve, reject) => {
+      stream.on('end', () => {
+        demuxer.end();
+        exec.inspect().then(info => resolve(info.ExitCode), reject);
+      });
+      stream.on('error', reject);
+    });
+    // Callers that only care about the output may never await it
+    exited.catch(() => undefined);
+
+    return { id: exec.id, stdin: options.stdin ? stream as Duplex : undefined, exited };
+  }
+
+  async logs(options: RuntimeLogOptions): Promise<Readable> {
+    if (options.follow) {
+      return await this.container.logs({ ...options, follow: true }) as unknown as Readable;
+    }
+    return Readable.from([await this.container.logs({ ...options, follow: false })]);
+  }
+
+  async getArchive(path: string): Promise<Readable> {
+    return await this.container.getArchive({ path }) as Readable;
+  }
+
+  async putArchive(archive: Buffer | Readable, options: { path: string; copyUIDGID?: boolean }): Promise<void> {
+    await this.container.putArchive(archive, options);
+  }
+}
+
+/**
+ * Runtime backed by dockerode. Podman hosts use it too, pointed at Podman's
+ * Docker compatible socket.
+ */
+export class DockerRuntime implements ContainerRuntime {
+  constructor(private readonly docker: Docker, readonly kind: 'docker' | 'podman' = 'docker') {}
+
+  listContainers(options: RuntimeListOptions = {}): Promise<Docker.ContainerInfo[]> {
+    return this.docker.listContainers(options);
+  }
+
+  getContainer(containerId: string): RuntimeContainer {
+    return new DockerContainer(this.docker.getContainer(containerId));
+  }
+}
@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import Docker from 'dockerode';
+import type { DockerHost } from '../shared/types.js';
+import { DockerRuntime, type ContainerRuntime, type RuntimeKind } from './containerRuntime.js';
+import { LocalRuntime, type LocalContainerConfig } from './localRuntime.js';
+
+export const DEFAULT_HOST = 'local';
+
+/**
+ * One Docker endpoint. Give either `socketPath` or `url`:
+ * - `unix:///var/run/docker.sock` or `socketPath` for a local socket
+ * - `tcp://host:2376` with `ca`, `cert` and `key` files for TLS (plain TCP without them)
+ * - `ssh://user@host[:port]`, authenticated with `privateKey` or the SSH agent
+ *
+ * `runtime: "podman"` talks to Podman's socket instead (default: CONTAINER_HOST,
+ * else the rootless or rootful socket). `runtime: "local"` has no endpoint;
+ * its `containers` are host directories.
+ */
+export interface DockerHostConfig {
+  /** Container runtime (default: docker) */
+  runtime?: RuntimeKind;
+  /** Containers of a `local` host, by name */
+  containers?: Record<string, LocalContainerConfig>;
+  socketPath?: string;
+  url?: string;
+  /** CA certificate file used to verify a TLS daemon */
+  ca?: string;
+  /** Client certificate file for TLS */
+  cert?: string;
+  /** Client key file for TLS */
+  key?: string;
+  /** Private key file for SSH; the agent in SSH_AUTH_SOCK is used otherwise */
+  privateKey?: string;
+}
+
+export interface DockerHostsFile {
+  /** Host used when a tool call does not name one (default: the first host) */
+  primary?: string;
+  hosts: Record<string, DockerHostConfig>;
+}
+
+/**
+ * Human readable endpoint for logs and tool output.
+ */
+export function describeEndpoint(config: DockerHostConfig): string {
+  if (config.runtime === 'local') {
+    return `local (${Object.keys(config.containers ?? {}).join(', ') || 'no containers'})`;
+  }
+  if (config.url) return config.url;
+  if (config.socketPath) return `unix://${config.socketPath}`;
+  if (config.runtime === 'podman') return process.env.CONTAINER_HOST ?? `unix://${podmanSocketPath()}`;
+  return process.env.DOCKER_HOST ?? 'unix:///var/run/docker.sock';
+}
+
+/**
+ * Podman's API socket: the rootless one of the current user when it exists,
+ * else the system one.
+ */
+export function podmanSocketPath(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.XDG_RUNTIME_DIR) {
+    const rootless = path.join(env.XDG_RUNTIME_DIR, 'podman', 'podman.sock');
+    if (fs.existsSync(rootless)) return rootless;
+  }
+  return '/run/podman/podman.sock';
+}
+
+/**
+ * Create a Docker client for an endpoint. Certificate and key files are read
+ * immediately so configuration mistakes show up at startup.
+ */
+export function createDockerClient(name: string, config: DockerHostConfig): Docker {
+  if (config.runtime === 'podman' && !config.url && !config.socketPath) {
+    return createDockerClient(name, process.env.CONTAINER_HOST
+      ? { url: process.env.CONTAINER_HOST, privateKey: config.privateKey }
+      : { socketPath: podmanSocketPath() });
+  }
+  if (!config.url) {
+    return new Docker(config.socketPath ? { socketPath: config.socketPath } : undefined);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(config.url);
+  } catch {
+    throw new Error(`Docker host '${name}': invalid url '${config.url}'`);
+  }
+
+  switch (url.protocol) {
+    case 'unix:':
+      return new Docker({ socketPath: url.pathname });
+    case 'tcp:':
+    case 'http:':
+    case 'https:': {
+      const tls = url.protocol === 'https:' || Boolean(config.ca || config.cert || config.key);
+      return new Docker({
+        protocol: tls ? 'https' : 'http',
+        host: url.hostname,
+        port: url.port || (tls ? 2376 : 2375),
+        ca: config.ca ? fs.readFileSync(config.ca) : undefined,
+        cert: config.cert ? fs.readFileSync(config.cert) : undefined,
+        key: config.key ? fs.readFileSync(config.key) : undefined
+      });
+    }
+    case 'ssh:':
+      return new Docker({
+        protocol: 'ssh',
+        host: url.hostname,
+        port: url.port || 22,
+        username: decodeURIComponent(url.username) || undefined,
+        sshOptions: config.privateKey
+          ? { privateKey: fs.readFileSync(config.privateKey) }
+          : { agent: process.env.SSH_AUTH_SOCK }
+      });
+    default:
+      throw new Error(`Docker host '${name}': unsupported protocol '${url.protocol}' (use unix, tcp or ssh)`);
+  }
+}
+
+/**
+ * The runtime a host's exec, file and log tools go through.
+ */
+export function createContainerRuntime(name: string, config: DockerHostConfig, docker: Docker): ContainerRuntime {
+  switch (config.runtime ?? 'docker') {
+    case 'docker':
+    case 'podman':
+      return new DockerRuntime(docker, config.runtime === 'podman' ? 'podman' : 'docker');
+    case 'local':
+      if (!config.containers || Object.keys(config.containers).length === 0) {
+        throw new Error(`Docker host '${name}': the local runtime needs at least one entry in containers`);
+      }
+      return new LocalRuntime(config.containers);
+    default:
+      throw new Error(`Docker host '${name}': unknown runtime '${config.runtime}' (use docker, podman or local)`);
+  }
+}
+
+/**
+ * Read the endpoint configuration from `MCP_DOCKER_HOSTS_FILE`. Without it
+ * there is a single host named `local` that uses DOCKER_HOST or the local
+ * socket, or Podman when MCP_CONTAINER_RUNTIME=podman.
+ */
+export function loadDockerHostsConfig(env: NodeJS.ProcessEnv = process.env): Required<DockerHostsFile> {
+  if (!env.MCP_DOCKER_HOSTS_FILE) {
+    const runtime = env.MCP_CONTAINER_RUNTIME as RuntimeKind | undefined;
+    return { primary: DEFAULT_HOST, hosts: { [DEFAULT_HOST]: runtime ? { runtime } : {} } };
+  }
+
+  const file = JSON.parse(fs.readFileSync(env.MCP_DOCKER_HOSTS_FILE, 'utf8')) as DockerHostsFile;
+  const names = Object.keys(file.hosts ?? {});
+  if (names.length === 0) {
+    throw new Error(`${env.MCP_DOCKER_HOSTS_FILE} does not define any hosts`);
+  }
+  const primary = file.primary ?? names[0];
+  if (!names.includes(primary)) {
+    throw new Error(`Primary Docker host '${primary}' is not defined in ${env.MCP_DOCKER_HOSTS_FILE}`);
+  }
+  return { primary, hosts: file.hosts };
+}
+
+/**
+ * The configured Docker endpoints, each with its own client, access policy,
+ * background jobs, shell sessions and sandboxes. Job and session IDs
+ * therefore belong to the host they were started on.
+ */
+export class DockerHosts {
+  private readonly hosts = new Map<string, DockerHost>();
+
+  constructor(hosts: DockerHost[], readonly primary: string) {
+    for (const host of hosts) {
+      this.hosts.set(host.name, host);
+    }
+    if (!this.hosts.has(primary)) {
+      throw new Error(`Primary Docker host '${primary}' is not configured`);
+    }
+  }
+
+  get names(): string[] {
+    return [...this.hosts.keys()];
+  }
+
+  /**
+   * The named host, or the primary host when no name is given.
+   */
+  get(name?: string): DockerHost {
+    const host = this.hosts.get(name || this.primary);
+    if (!host) {
+      throw new Error(`Unknown Docker host '${name}'. Configured hosts: ${this.names.join(', ')}`);
+    }
+    return host;
+  }
+
+  list(): DockerHost[] {
+    return [...this.hosts.values()];
+  }
+
+  /**
+   * Start the sandbox reapers and, unless MCP_DOCKER_EVENTS=false, the event
+   * watchers of all hosts. Local hosts have neither.
+   */
+  start(): void {
+    for (const host of this.hosts.values()) {
+      if (host.runtime.kind === 'local') continue;
+      host.sandboxes.start();
+      if (process.env.MCP_DOCKER_EVENTS !== 'false') {
+        host.events.start();
+      }
+    }
+  }
+
+  /**
+   * Stop the sandbox reapers and event watchers and close all shell sessions.
+   */
+  async close(): Promise<void> {
+    for (const host of this.hosts.values()) {
+      host.sandboxes.stop();
+      host.events.stop();
+    }
+    await Promise.all(this.list().map(host => host.shells.closeAll()));
+  }
+}
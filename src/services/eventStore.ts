@@ -0,0 +1,63 @@
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+interface StoredEvent {
+  id: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+export interface MemoryEventStoreOptions {
+  /** Events kept for replay; the oldest are dropped first (default: 1000) */
+  maxEvents?: number;
+}
+
+/**
+ * Bounded in-memory event store for resumable HTTP sessions.
+ *
+ * Every message the server sends on an SSE stream is recorded under an ID of
+ * the form `<stream>_<sequence>`. A client that reconnects with
+ * `Last-Event-ID` gets the messages of that stream sent after it. Each HTTP
+ * session has its own store, so events disappear together with the session.
+ */
+export class MemoryEventStore implements EventStore {
+  private events: StoredEvent[] = [];
+  private sequence = 0;
+  private readonly maxEvents: number;
+
+  constructor(options: MemoryEventStoreOptions = {}) {
+    this.maxEvents = options.maxEvents ?? 1000;
+  }
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const id = `${streamId}_${++this.sequence}`;
+    this.events.push({ id, streamId, message });
+    if (this.events.length > this.maxEvents) {
+      this.events.splice(0, this.events.length - this.maxEvents);
+    }
+    return id;
+  }
+
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const separator = eventId.lastIndexOf('_');
+    return separator > 0 ? eventId.slice(0, separator) : undefined;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = await this.getStreamIdForEventId(lastEventId);
+    const index = this.events.findIndex(event => event.id === lastEventId);
+    if (!streamId || index === -1) {
+      throw new Error(`Event '${lastEventId}' is unknown or no longer stored; reconnect without Last-Event-ID`);
+    }
+
+    for (const event of this.events.slice(index + 1)) {
+      if (event.streamId === streamId) {
+        await send(event.id, event.message);
+      }
+    }
+    return streamId;
+  }
+}
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import type Docker from 'dockerode';
+import type { ContainerRuntime } from './containerRuntime.js';
+import { matchesGlob } from '../utils/matchUtils.js';
+import { runContainerCommand } from '../utils/processUtils.js';
+import { shellQuote } from '../utils/shellUtils.js';
+
+/**
+ * Shells tried, in order, when a container has no configured shell.
+ */
+export const SHELL_CANDIDATES = ['/bin/bash', '/bin/sh', '/bin/ash'];
+
+/**
+ * Per-container settings from MCP_EXEC_DEFAULTS_FILE. Anything left out
+ * falls back to the container's own configuration.
+ */
+export interface ExecDefaults {
+  workingDir?: string;
+  user?: string;
+  /** Shell for command strings and shell sessions, skipping detection */
+  shell?: string;
+}
+
+/**
+ * Defaults file format: container name globs mapped to their defaults. The
+ * first matching entry applies.
+ */
+export type ExecDefaultsFile = Record<string, ExecDefaults>;
+
+export interface ExecRequest {
+  /** Command line run through the container's shell */
+  command?: string;
+  /** Program and arguments run directly, without a shell */
+  argv?: string[];
+  workingDir?: string;
+  user?: string;
+}
+
+export interface ResolvedExec {
+  cmd: string[];
+  /** Command line for display, guard rules and the audit trail */
+  commandLine: string;
+  workingDir?: string;
+  user?: string;
+  /** Shell that runs the command; undefined in argv mode */
+  shell?: string;
+}
+
+/**
+ * Command line equivalent of an argv array, quoting only where needed.
+ */
+export function formatArgv(argv: string[]): string {
+  return argv.map(arg => (/^[A-Za-z0-9_@%+=:,./-]+$/.test(arg) ? arg : shellQuote(arg))).join(' ');
+}
+
+/**
+ * Works out how to run a command in a container without assuming bash or
+ * an Ubuntu layout.
+ *
+ * Working directory and user come from the call, then from the defaults
+ * file, then from the image (`Config.WorkingDir`, `Config.User`). Command
+ * strings run through the first shell of bash, sh and ash that exists in the
+ * container; the result is cached per container ID. Argv commands run as
+ * they are, which also works on distroless images without any shell.
+ */
+export class ExecResolver {
+  private shells = new Map<string, Promise<string | null>>();
+
+  constructor(private readonly runtime: ContainerRuntime, private readonly defaults: ExecDefaultsFile = {}) {}
+
+  /**
+   * Read per-container defaults from MCP_EXEC_DEFAULTS_FILE.
+   */
+  static fromEnv(runtime: ContainerRuntime, env: NodeJS.ProcessEnv = process.env): ExecResolver {
+    if (!env.MCP_EXEC_DEFAULTS_FILE) {
+      return new ExecResolver(runtime);
+    }
+    return new ExecResolver(runtime, JSON.parse(fs.readFileSync(env.MCP_EXEC_DEFAULTS_FILE, 'utf8')) as ExecDefaultsFile);
+  }
+
+  /**
+   * Configured defaults of a container, matched by name or ID.
+   */
+  defaultsFor(info: Docker.ContainerInspectInfo): ExecDefaults {
+    const name = info.Name.replace(/^\//, '');
+    for (const [pattern, defaults] of Object.entries(this.defaults)) {
+      if (matchesGlob(name, pattern) || info.Id.startsWith(pattern)) {
+        return defaults;
+      }
+    }
+    return {};
+  }
+
+  async resolve(info: Docker.ContainerInspectInfo, request: ExecRequest): Promise<ResolvedExec> {
+    const { command, argv } = request;
+    if ((command === undefined) === (argv === undefined)) {
+      throw new Error('Give either command (run through a shell) or argv (run without a shell)');
+    }
+    if (argv && argv.length === 0) {
+      throw new Error('argv must contain at least the program to run');
+    }
+
+    const { workingDir, user } = this.workingDirAndUser(info, request);
+    if (argv) {
+      return { cmd: argv, commandLine: formatArgv(argv), workingDir, user };
+    }
+
+    const shell = await this.shell(info);
+    return { cmd: [shell, '-c', command!], commandLine: command!, workingDir, user, shell };
+  }
+
+  /**
+   * Working directory and user for a call, with the container's defaults
+   * filled in. Empty values let Docker use the image configuration.
+   */
+  workingDirAndUser(info: Docker.ContainerInspectInfo, request: Pick<ExecRequest, 'workingDir' | 'user'>): { workingDir?: string; user?: string } {
+    const defaults = this.defaultsFor(info);
+    return {
+      workingDir: request.workingDir || defaults.workingDir || info.Config.WorkingDir || undefined,
+      user: request.user || defaults.user || info.Config.User || undefined
+    };
+  }
+
+  /**
+   * The shell to use in a container. Throws when it has none.
+   */
+  async shell(info: Docker.ContainerInspectInfo): Promise<string> {
+    const configured = this.defaultsFor(info).shell;
+    if (configured) return configured;
+
+    let detection = this.shells.get(info.Id);
+    if (!detection) {
+      detection = this.detect(info.Id);
+      this.shells.set(info.Id, detection);
+      // Connection problems are not a property of the container; try again next time
+      detection.catch(() => this.shells.delete(info.Id));
+    }
+
+    const shell = await detection;
+    if (!shell) {
+      throw new Error(`No shell found in container '${info.Name.replace(/^\//, '')}' (tried ${SHELL_CANDIDATES.join(', ')}). Pass the command as argv to run it without a shell.`);
+    }
+    return shell;
+  }
+
+  private async detect(containerId: string): Promise<string | null> {
+    const container = this.runtime.getContainer(containerId);
+    for (const shell of SHELL_CANDIDATES) {
+      try {
+        const { exitCode } = await runContainerCommand(container, [shell, '-c', 'exit 0'], '0');
+        if (exitCode === 0) return shell;
+      } catch (error) {
+        // The runtime fails the exec itself when the binary does not exist
+        if (!/no such file|not found|executable file/i.test(error instanceof Error ? error.message : String(error))) {
+          throw error;
+        }
+      }
+    }
+    return null;
+  }
+}
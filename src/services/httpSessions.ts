@@ -0,0 +1,160 @@
+import { randomUUID } from 'crypto';
+import type { Request, Response } from 'express';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { MemoryEventStore } from './eventStore.js';
+
+export interface HttpSessionManagerOptions {
+  /** Close sessions without any request for this many seconds (default: 30 minutes, 0 disables) */
+  idleTimeout?: number;
+  /** Messages per session kept for resuming SSE streams (default: 1000) */
+  maxEvents?: number;
+}
+
+interface HttpSession {
+  id: string;
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Identity that initialized the session; other callers cannot use it */
+  clientId?: string;
+  lastSeenAt: number;
+  /** Requests still being answered, including open GET streams */
+  activeRequests: number;
+}
+
+/**
+ * Send a JSON-RPC error response outside of a transport.
+ */
+export function sendJsonRpcError(res: Response, status: number, code: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code, message },
+    id: null
+  });
+}
+
+/**
+ * Stateful Streamable HTTP sessions.
+ *
+ * An initialize request without `Mcp-Session-Id` creates a session with its
+ * own MCP server, transport and event store; all later POST, GET (SSE stream
+ * for server-initiated messages) and DELETE requests carry the session ID.
+ * Clients that lose an SSE stream can reconnect with `Last-Event-ID` and get
+ * the messages they missed. Sessions end on DELETE, on shutdown, or after
+ * `idleTimeout` seconds without requests and without an open stream.
+ *
+ * A session belongs to the caller that initialized it: its server is created
+ * for that caller's auth info, and requests with other credentials are
+ * answered as if the session did not exist.
+ */
+export class HttpSessionManager {
+  private sessions = new Map<string, HttpSession>();
+  private sweeper?: NodeJS.Timeout;
+  private readonly idleTimeout: number;
+  private readonly maxEvents: number;
+
+  constructor(private readonly createServer: (auth?: AuthInfo) => McpServer, options: HttpSessionManagerOptions = {}) {
+    this.idleTimeout = options.idleTimeout ?? 30 * 60;
+    this.maxEvents = options.maxEvents ?? 1000;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Handle a POST, GET or DELETE request on the MCP endpoint.
+   */
+  async handle(req: Request & { auth?: AuthInfo }, res: Response): Promise<void> {
+    const sessionId = req.header('mcp-session-id');
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session || session.clientId !== req.auth?.clientId) {
+        return sendJsonRpcError(res, 404, -32001, `Session '${sessionId}' not found. It may have expired; send a new initialize request.`);
+      }
+      return this.dispatch(session, req, res);
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      return sendJsonRpcError(res, 400, -32000, 'Bad Request: Mcp-Session-Id header is required after initialization');
+    }
+
+    const session = await this.open(req.auth);
+    await this.dispatch(session, req, res);
+    // The initialize request was rejected, so no client can ever use this session
+    if (!this.sessions.has(session.id)) {
+      await this.close(session);
+    }
+  }
+
+  /**
+   * Start closing idle sessions.
+   */
+  start(): void {
+    if (this.sweeper || this.idleTimeout <= 0) return;
+    this.sweeper = setInterval(() => this.closeIdle(), Math.min(this.idleTimeout, 60) * 1000);
+    this.sweeper.unref();
+  }
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    this.sweeper = undefined;
+    await Promise.all([...this.sessions.values()].map(session => this.close(session)));
+  }
+
+  private async open(auth?: AuthInfo): Promise<HttpSession> {
+    const server = this.createServer(auth);
+    let session: HttpSession | undefined;
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new MemoryEventStore({ maxEvents: this.maxEvents }),
+      onsessioninitialized: (id) => {
+        if (!session) return;
+        session.id = id;
+        this.sessions.set(id, session);
+        console.log(`MCP session ${id} opened (${this.sessions.size} active)`);
+      }
+    });
+    // Set before connect: the server chains its own close handling onto this
+    transport.onclose = () => {
+      if (session?.id && this.sessions.delete(session.id)) {
+        console.log(`MCP session ${session.id} closed (${this.sessions.size} active)`);
+      }
+    };
+
+    session = { id: '', server, transport, clientId: auth?.clientId, lastSeenAt: Date.now(), activeRequests: 0 };
+    await server.connect(transport);
+    return session;
+  }
+
+  private async dispatch(session: HttpSession, req: Request, res: Response): Promise<void> {
+    session.activeRequests++;
+    session.lastSeenAt = Date.now();
+    res.on('close', () => {
+      session.activeRequests--;
+      session.lastSeenAt = Date.now();
+    });
+
+    await session.transport.handleRequest(req, res, req.body);
+  }
+
+  private closeIdle(): void {
+    const cutoff = Date.now() - this.idleTimeout * 1000;
+    for (const session of this.sessions.values()) {
+      if (session.activeRequests <= 0 && session.lastSeenAt < cutoff) {
+        console.log(`MCP session ${session.id} idle for ${this.idleTimeout}s`);
+        this.close(session).catch(() => undefined);
+      }
+    }
+  }
+
+  private async close(session: HttpSession): Promise<void> {
+    this.sessions.delete(session.id);
+    await session.transport.close();
+    await session.server.close();
+  }
+}
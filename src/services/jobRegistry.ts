@@ -0,0 +1,279 @@
+import { randomUUID } from 'crypto';
+import type { DockerStreamType } from '../utils/dockerStream.js';
+import type { ContainerRuntime } from './containerRuntime.js';
+import { PROCESS_TAG_VAR, signalTaggedProcesses } from '../utils/processUtils.js';
+
+export type JobStatus = 'running' | 'exited' | 'killed' | 'timed_out' | 'failed';
+
+export interface JobStartOptions {
+  containerId: string;
+  /** Command line shown in job listings */
+  command: string;
+  /** Program and arguments to run, e.g. `['/bin/sh', '-c', command]` */
+  cmd: string[];
+  workingDir?: string;
+  user?: string;
+  env?: string[];
+  /** Kill the job after this many seconds. 0 or undefined means no timeout. */
+  timeout?: number;
+  /** Authenticated client starting the job */
+  owner?: string;
+}
+
+/**
+ * Buffered output of one stream. Offsets are absolute character positions in
+ * everything the stream produced; once the buffer exceeds its cap the oldest
+ * output is dropped and `dropped` records how much of it is gone.
+ */
+export interface JobOutputBuffer {
+  text: string;
+  dropped: number;
+}
+
+export interface Job {
+  id: string;
+  execId: string;
+  containerId: string;
+  command: string;
+  status: JobStatus;
+  exitCode: number | null;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  output: Record<DockerStreamType, JobOutputBuffer>;
+  /** Client that started the job; when set, only that client can see it */
+  owner?: string;
+}
+
+export interface JobOutputSlice {
+  text: string;
+  /** Offset the slice actually starts at (can be past the requested offset if output was dropped) */
+  start: number;
+  /** Offset to pass on the next call */
+  next: number;
+  /** Total characters produced by the stream so far */
+  total: number;
+}
+
+export interface JobRegistryOptions {
+  /** Maximum characters kept per stream and job (default: 1 MiB) */
+  maxBufferSize?: number;
+  /** How long finished jobs are kept, in milliseconds (default: 1 hour) */
+  retention?: number;
+  /** Seconds between SIGTERM and SIGKILL when stopping a job (default: 5) */
+  killGracePeriod?: number;
+}
+
+interface JobEntry {
+  job: Job;
+  done: Promise<void>;
+  timer?: NodeJS.Timeout;
+  stopReason?: 'killed' | 'timed_out';
+}
+
+/**
+ * Tracks commands started in the background with exec_start.
+ *
+ * Each job is a Docker exec whose demultiplexed output is buffered here so it
+ * can be polled incrementally. Every process of a job carries the
+ * MCP_JOB_ID environment tag, which lets kill and timeout terminate the
+ * whole process tree inside the container instead of only the exec stream.
+ */
+export class JobRegistry {
+  private jobs = new Map<string, JobEntry>();
+  private readonly maxBufferSize: number;
+  private readonly retention: number;
+  private readonly killGracePeriod: number;
+
+  constructor(private readonly runtime: ContainerRuntime, options: JobRegistryOptions = {}) {
+    this.maxBufferSize = options.maxBufferSize ?? 1024 * 1024;
+    this.retention = options.retention ?? 60 * 60 * 1000;
+    this.killGracePeriod = options.killGracePeriod ?? 5;
+  }
+
+  async start(options: JobStartOptions): Promise<Job> {
+    this.prune();
+
+    const { containerId, command, cmd, workingDir, user, env, timeout, owner } = options;
+    const container = this.runtime.getContainer(containerId);
+
+    const info = await container.inspect();
+    if (!info.State.Running) {
+      throw new Error(`Container '${containerId}' is not running`);
+    }
+
+    const id = randomUUID().slice(0, 8);
+    const output: Job['output'] = { stdout: { text: '', dropped: 0 }, stderr: { text: '', dropped: 0 } };
+    const exec = await container.exec({
+      cmd,
+      workingDir,
+      user,
+      env: [...(env ?? []), `${PROCESS_TAG_VAR}=${id}`]
+    }, (streamType, text) => this.append(output[streamType], text));
+
+    const job: Job = {
+      id,
+      execId: exec.id,
+      containerId,
+      command,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date(),
+      output,
+      owner
+    };
+
+    const entry: JobEntry = { job, done: Promise.resolve() };
+    entry.done = exec.exited.then((exitCode) => {
+      job.exitCode = exitCode;
+      job.status = entry.stopReason ?? 'exited';
+    }, (error: unknown) => {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : 'Unknown error';
+    }).then(() => this.finish(entry));
+
+    if (timeout && timeout > 0) {
+      entry.timer = setTimeout(() => {
+        this.stop(entry, 'timed_out').catch((error) => {
+          console.error(`Failed to stop timed out job ${id}:`, error);
+        });
+      }, timeout * 1000);
+    }
+
+    this.jobs.set(id, entry);
+    return job;
+  }
+
+  /**
+   * The job, unless it does not exist or belongs to a client other than `owner`.
+   */
+  get(jobId: string, owner?: string): Job | undefined {
+    const job = this.jobs.get(jobId)?.job;
+    return job && this.visible(job, owner) ? job : undefined;
+  }
+
+  /**
+   * Jobs `owner` can see: its own and those started without authentication.
+   */
+  list(owner?: string): Job[] {
+    this.prune();
+    return Array.from(this.jobs.values()).map(entry => entry.job).filter(job => this.visible(job, owner));
+  }
+
+  /**
+   * Resolves once the job has finished, however it ended.
+   */
+  settled(jobId: string): Promise<void> {
+    return this.getEntry(jobId).done;
+  }
+
+  /**
+   * Wait up to `seconds` for the job to finish. Resolves with the job either way.
+   */
+  async wait(jobId: string, seconds: number, owner?: string): Promise<Job> {
+    const entry = this.getEntry(jobId, owner);
+    if (entry.job.status === 'running' && seconds > 0) {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        entry.done,
+        new Promise<void>(resolve => {
+          timer = setTimeout(resolve, seconds * 1000);
+        })
+      ]);
+      clearTimeout(timer);
+    }
+    return entry.job;
+  }
+
+  /**
+   * Read buffered output of a stream starting at an absolute offset.
+   */
+  read(jobId: string, streamType: DockerStreamType, offset: number, maxLength: number, owner?: string): JobOutputSlice {
+    const { job } = this.getEntry(jobId, owner);
+    const buffer = job.output[streamType];
+    const total = buffer.dropped + buffer.text.length;
+
+    const start = Math.min(Math.max(offset, buffer.dropped), total);
+    const text = buffer.text.slice(start - buffer.dropped, start - buffer.dropped + maxLength);
+
+    return { text, start, next: start + text.length, total };
+  }
+
+  /**
+   * Terminate a running job. Sends `signal` to the whole process tree and
+   * escalates to SIGKILL if it is still running after the grace period.
+   */
+  async kill(jobId: string, signal: string = 'TERM', owner?: string): Promise<Job> {
+    const entry = this.getEntry(jobId, owner);
+    await this.stop(entry, 'killed', signal);
+    return entry.job;
+  }
+
+  private async stop(entry: JobEntry, reason: 'killed' | 'timed_out', signal: string = 'TERM'): Promise<void> {
+    const { job } = entry;
+    if (job.status !== 'running') return;
+
+    entry.stopReason = reason;
+    await signalTaggedProcesses(this.runtime, job.containerId, job.id, signal);
+
+    if (!(await this.settles(entry, this.killGracePeriod)) && signal !== 'KILL') {
+      await signalTaggedProcesses(this.runtime, job.containerId, job.id, 'KILL');
+      // A stream that does not end even then is not waited for; the job stays running
+      await this.settles(entry, this.killGracePeriod);
+    }
+  }
+
+  /**
+   * Resolve with whether the job finished within `seconds`.
+   */
+  private async settles(entry: JobEntry, seconds: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        entry.done.then(() => true, () => true),
+        new Promise<boolean>(resolve => {
+          timer = setTimeout(() => resolve(false), seconds * 1000);
+        })
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private append(buffer: JobOutputBuffer, text: string): void {
+    buffer.text += text;
+
+    const overflow = buffer.text.length - this.maxBufferSize;
+    if (overflow > 0) {
+      buffer.text = buffer.text.slice(overflow);
+      buffer.dropped += overflow;
+    }
+  }
+
+  private finish(entry: JobEntry): void {
+    clearTimeout(entry.timer);
+    entry.job.finishedAt = new Date();
+  }
+
+  private visible(job: Job, owner?: string): boolean {
+    return job.owner === undefined || job.owner === owner;
+  }
+
+  // Other clients' jobs are reported as missing rather than forbidden, so their IDs cannot be probed
+  private getEntry(jobId: string, owner?: string): JobEntry {
+    const entry = this.jobs.get(jobId);
+    if (!entry || !this.visible(entry.job, owner)) {
+      throw new Error(`Job '${jobId}' not found`);
+    }
+    return entry;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retention;
+    for (const [id, entry] of this.jobs) {
+      if (entry.job.finishedAt && entry.job.finishedAt.getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
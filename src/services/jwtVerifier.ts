@@ -0,0 +1,147 @@
+import fs from 'fs';
+import { constants, createPublicKey, verify, type JsonWebKey, type KeyObject } from 'crypto';
+
+export interface JwtVerifierOptions {
+  /** JWKS file with the public keys tokens are signed with */
+  jwks: string;
+  /** Required `iss` claim */
+  issuer?: string;
+  /** Required `aud` claim (one of the token's audiences) */
+  audience?: string;
+  /** Seconds of clock skew tolerated for `exp` and `nbf` (default: 30) */
+  clockTolerance?: number;
+}
+
+export interface JwtPayload {
+  sub?: string;
+  iss?: string;
+  aud?: string | string[];
+  exp?: number;
+  nbf?: number;
+  [claim: string]: unknown;
+}
+
+interface JwtHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+  alg?: string;
+  use?: string;
+}
+
+// Asymmetric algorithms only: the JWKS holds public keys, so HS* and `none` are refused
+const ALGORITHMS: Record<string, { kty: string; digest: string | null; pss?: boolean; ecdsa?: boolean }> = {
+  RS256: { kty: 'RSA', digest: 'sha256' },
+  RS384: { kty: 'RSA', digest: 'sha384' },
+  RS512: { kty: 'RSA', digest: 'sha512' },
+  PS256: { kty: 'RSA', digest: 'sha256', pss: true },
+  PS384: { kty: 'RSA', digest: 'sha384', pss: true },
+  PS512: { kty: 'RSA', digest: 'sha512', pss: true },
+  ES256: { kty: 'EC', digest: 'sha256', ecdsa: true },
+  ES384: { kty: 'EC', digest: 'sha384', ecdsa: true },
+  ES512: { kty: 'EC', digest: 'sha512', ecdsa: true },
+  EdDSA: { kty: 'OKP', digest: null }
+};
+
+function decodeSegment<T>(segment: string, name: string): T {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8')) as T;
+  } catch {
+    throw new Error(`Malformed JWT ${name}`);
+  }
+}
+
+/**
+ * Verifies JWT bearer tokens against a local JWKS file, e.g. short-lived
+ * tokens minted by a gateway. The file is read again when it changes, so
+ * keys can be rotated without a restart.
+ */
+export class JwtVerifier {
+  private keys: Array<{ jwk: Jwk; key: KeyObject }> = [];
+  private loadedMtime = 0;
+  private readonly clockTolerance: number;
+
+  constructor(private readonly options: JwtVerifierOptions) {
+    this.clockTolerance = options.clockTolerance ?? 30;
+    this.load();
+  }
+
+  /**
+   * Check signature, expiry, issuer and audience and return the claims.
+   * Throws with the reason when the token is not acceptable.
+   */
+  verify(token: string): JwtPayload {
+    const parts = token.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Not a JWT');
+    }
+    const [headerSegment, payloadSegment, signatureSegment] = parts;
+    const header = decodeSegment<JwtHeader>(headerSegment, 'header');
+    const algorithm = header.alg ? ALGORITHMS[header.alg] : undefined;
+    if (!algorithm) {
+      throw new Error(`Unsupported JWT algorithm '${header.alg}'`);
+    }
+
+    this.load();
+    const candidates = this.keys.filter(({ jwk }) =>
+      jwk.kty === algorithm.kty
+      && (header.kid === undefined || jwk.kid === header.kid)
+      && (jwk.alg === undefined || jwk.alg === header.alg)
+      && (jwk.use === undefined || jwk.use === 'sig'));
+    if (candidates.length === 0) {
+      throw new Error(`No key in the JWKS matches the token (kid '${header.kid ?? ''}', alg ${header.alg})`);
+    }
+
+    const data = Buffer.from(`${headerSegment}.${payloadSegment}`);
+    const signature = Buffer.from(signatureSegment, 'base64url');
+    const valid = candidates.some(({ key }) => verify(algorithm.digest, data, {
+      key,
+      padding: algorithm.pss ? constants.RSA_PKCS1_PSS_PADDING : undefined,
+      saltLength: algorithm.pss ? constants.RSA_PSS_SALTLEN_DIGEST : undefined,
+      dsaEncoding: algorithm.ecdsa ? 'ieee-p1363' : undefined
+    }, signature));
+    if (!valid) {
+      throw new Error('Invalid JWT signature');
+    }
+
+    const payload = decodeSegment<JwtPayload>(payloadSegment, 'payload');
+    const now = Date.now() / 1000;
+    if (typeof payload.exp !== 'number') {
+      throw new Error('JWT has no expiry (exp)');
+    }
+    if (payload.exp + this.clockTolerance < now) {
+      throw new Error('JWT has expired');
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf - this.clockTolerance > now) {
+      throw new Error('JWT is not valid yet');
+    }
+    if (this.options.issuer && payload.iss !== this.options.issuer) {
+      throw new Error(`JWT issuer '${payload.iss}' is not accepted`);
+    }
+    if (this.options.audience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(this.options.audience)) {
+        throw new Error(`JWT is not issued for audience '${this.options.audience}'`);
+      }
+    }
+    return payload;
+  }
+
+  private load(): void {
+    const mtime = fs.statSync(this.options.jwks).mtimeMs;
+    if (mtime === this.loadedMtime) return;
+
+    const file = JSON.parse(fs.readFileSync(this.options.jwks, 'utf8')) as { keys?: Jwk[] };
+    this.keys = (file.keys ?? []).map((jwk) => {
+      try {
+        return { jwk, key: createPublicKey({ key: jwk, format: 'jwk' }) };
+      } catch (error) {
+        throw new Error(`Invalid key '${jwk.kid ?? jwk.kty}' in ${this.options.jwks}: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    this.loadedMtime = mtime;
+  }
+}
@@ -0,0 +1,325 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import { spawn } from 'child_process';
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import tarFs from 'tar-fs';
+import type Docker from 'dockerode';
+import type { DockerStreamType } from '../utils/dockerStream.js';
+import type {
+  ContainerRuntime,
+  RuntimeContainer,
+  RuntimeExec,
+  RuntimeExecOptions,
+  RuntimeListOptions,
+  RuntimeLogOptions
+} from './containerRuntime.js';
+
+/**
+ * A container of the local runtime. Without `chroot` commands run as the
+ * server's user with the directory as working directory: that is a
+ * convenience for CI and machines without Docker, not isolation. Absolute
+ * paths in commands still refer to the host; only working directories and
+ * the file tools are mapped into `root`.
+ *
+ * With `chroot` commands run through `chroot(8)`, which needs root and a
+ * /bin/sh inside the directory. Timeouts and kill_job find processes through
+ * /proc, so mount it inside chroots that run jobs or shell sessions.
+ */
+export interface LocalContainerConfig {
+  /** Host directory the container's `/` maps to */
+  root: string;
+  chroot?: boolean;
+  /** Default user for chroot commands; directory containers run everything as the server's user */
+  user?: string;
+  /** Working directory commands start in (default: /) */
+  workingDir?: string;
+  /** Environment variables (KEY=value) every command gets */
+  env?: string[];
+  labels?: Record<string, string>;
+  /** Host file container_logs reads */
+  logFile?: string;
+}
+
+// PATH inside chroots, the usual one of container images
+const CHROOT_PATH = '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin';
+
+function notFound(message: string): Error {
+  return Object.assign(new Error(message), { statusCode: 404 });
+}
+
+function containerId(name: string): string {
+  return createHash('sha256').update(`local:${name}`).digest('hex');
+}
+
+/**
+ * Map a container path into the container's root. `..` cannot climb above
+ * the root; symlinks inside it are followed by the host as usual.
+ */
+function hostPath(root: string, containerPath: string): string {
+  return path.join(root, path.posix.normalize(`/${containerPath}`));
+}
+
+class LocalContainer implements RuntimeContainer {
+  readonly id: string;
+  readonly commandsSeeRoot: boolean;
+
+  constructor(
+    readonly name: string,
+    private readonly config: LocalContainerConfig,
+    private readonly startedAt: Date
+  ) {
+    this.id = containerId(name);
+    this.commandsSeeRoot = Boolean(config.chroot);
+  }
+
+  summary(): Docker.ContainerInfo {
+    return {
+      Id: this.id,
+      Names: [`/${this.name}`],
+      Image: this.image,
+      ImageID: '',
+      Command: '',
+      Created: Math.floor(this.startedAt.getTime() / 1000),
+      Ports: [],
+      Labels: this.config.labels ?? {},
+      State: 'running',
+      Status: `Up (${this.image})`,
+      HostConfig: { NetworkMode: 'host' },
+      NetworkSettings: { Networks: {} },
+      Mounts: []
+    };
+  }
+
+  async inspect(): Promise<Docker.ContainerInspectInfo> {
+    const root = await fs.promises.stat(this.config.root).catch(() => {
+      throw new Error(`Root directory '${this.config.root}' of local container '${this.name}' does not exist`);
+    });
+    return {
+      Id: this.id,
+      Name: `/${this.name}`,
+      Created: root.mtime.toISOString(),
+      Path: '',
+      Args: [],
+      State: {
+        Status: 'running',
+        Running: true,
+        Paused: false,
+        Restarting: false,
+        OOMKilled: false,
+        Dead: false,
+        Pid: 0,
+        ExitCode: 0,
+        Error: '',
+        StartedAt: this.startedAt.toISOString(),
+        FinishedAt: '0001-01-01T00:00:00Z'
+      },
+      Image: '',
+      Config: {
+        Image: this.image,
+        User: this.config.chroot ? this.config.user ?? '' : '',
+        Env: this.config.env ?? [],
+        WorkingDir: this.config.workingDir ?? '/',
+        Labels: this.config.labels ?? {},
+        // Logs are a plain file, not a multiplexed stream
+        Tty: true
+      },
+      HostConfig: { NetworkMode: 'host' },
+      NetworkSettings: { IPAddress: '', Gateway: '', Ports: {}, Networks: {} },
+      Mounts: [{ Type: 'bind', Source: this.config.root, Destination: '/', Mode: '', RW: true, Propagation: '' }]
+    } as unknown as Docker.ContainerInspectInfo;
+  }
+
+  async exec(options: RuntimeExecOptions, onOutput: (stream: DockerStreamType, text: string) => void): Promise<RuntimeExec> {
+    const { root, chroot } = this.config;
+    const workingDir = options.workingDir || this.config.workingDir || '/';
+    const env: Record<string, string> = chroot
+      ? { PATH: CHROOT_PATH }
+      : { PATH: process.env.PATH ?? CHROOT_PATH, HOME: process.env.HOME ?? os.homedir() };
+    for (const entry of [...(this.config.env ?? []), ...(options.env ?? [])]) {
+      const index = entry.indexOf('=');
+      if (index > 0) env[entry.slice(0, index)] = entry.slice(index + 1);
+    }
+
+    let command: string;
+    let args: string[];
+    let cwd: string;
+    if (chroot) {
+      const user = options.user || this.config.user;
+      command = 'chroot';
+      args = [
+        ...(user ? [`--userspec=${user}`] : []),
+        root,
+        '/bin/sh', '-c', 'cd "$1" && shift && exec "$@"', 'sh', workingDir,
+        ...options.cmd
+      ];
+      cwd = root;
+    } else {
+      [command, ...args] = options.cmd;
+      cwd = hostPath(root, workingDir);
+      const stat = await fs.promises.stat(cwd).catch(() => undefined);
+      if (!stat?.isDirectory()) {
+        throw new Error(`Working directory '${workingDir}' does not exist in local container '${this.name}'`);
+      }
+    }
+
+    const child = spawn(command, args, { cwd, env, stdio: [options.stdin ? 'pipe' : 'ignore', 'pipe', 'pipe'] });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        child.once('spawn', resolve);
+        child.once('error', reject);
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot run '${command}' in local container '${this.name}': executable file not found (${reason})`);
+    }
+    // The command may exit without reading its input
+    child.stdin?.on('error', () => undefined);
+
+    const decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    for (const streamType of ['stdout', 'stderr'] as const) {
+      child[streamType]?.on('data', (chunk: Buffer) => {
+        const text = decoders[streamType].write(chunk);
+        if (text) onOutput(streamType, text);
+      });
+    }
+
+    const exited = new Promise<number | null>((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code, signal) => {
+        for (const streamType of ['stdout', 'stderr'] as const) {
+          const text = decoders[streamType].end();
+          if (text) onOutput(streamType, text);
+        }
+        // Same convention as a shell: 128 + signal number
+        resolve(code ?? (signal ? 128 + (os.constants.signals[signal] ?? 0) : null));
+      });
+    });
+    exited.catch(() => undefined);
+
+    return { id: `local-${child.pid}`, stdin: child.stdin ?? undefined, exited };
+  }
+
+  async logs(options: RuntimeLogOptions): Promise<Readable> {
+    const { logFile } = this.config;
+    if (!logFile) {
+      throw new Error(`Local container '${this.name}' has no logFile configured`);
+    }
+    if (options.since !== undefined || options.until !== undefined || options.timestamps) {
+      throw new Error('since, until and timestamps are not supported for local containers');
+    }
+    if (!options.stdout) return Readable.from([]);
+
+    let text = await fs.promises.readFile(logFile, 'utf8');
+    if (options.tail !== undefined) {
+      const lines = text.split('\n');
+      const last = lines[lines.length - 1] === '' ? lines.pop() : undefined;
+      text = lines.slice(-options.tail).join('\n') + (last === '' ? '\n' : '');
+    }
+    return Readable.from([Buffer.from(text)]);
+  }
+
+  async getArchive(containerPath: string): Promise<Readable> {
+    const target = hostPath(this.config.root, containerPath);
+    await fs.promises.lstat(target).catch(() => {
+      throw notFound(`Could not find the file ${containerPath} in container ${this.name}`);
+    });
+
+    // Like Docker: entries are named after the requested file or directory
+    const options: tarFs.PackOptions & { umask: number } = target === this.config.root
+      ? { umask: 0, map: header => ({ ...header, name: header.name === '.' ? '.' : `./${header.name}` }) }
+      : { umask: 0, entries: [path.basename(target)] };
+    // A Node stream like Docker's response: destroying it must not tear down what it is piped to
+    return Readable.from(tarFs.pack(target === this.config.root ? target : path.dirname(target), options));
+  }
+
+  async putArchive(archive: Buffer | Readable, options: { path: string; copyUIDGID?: boolean }): Promise<void> {
+    const target = hostPath(this.config.root, options.path);
+    const stat = await fs.promises.stat(target).catch(() => {
+      throw notFound(`Could not find the file ${options.path} in container ${this.name}`);
+    });
+    if (!stat.isDirectory()) {
+      throw new Error(`'${options.path}' in container ${this.name} is not a directory`);
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const extractOptions: tarFs.ExtractOptions & { umask: number; chown: boolean } = { umask: 0, chown: Boolean(options.copyUIDGID) };
+      const extract = tarFs.extract(target, extractOptions);
+      extract.on('finish', resolve);
+      extract.on('error', reject);
+      const source = Buffer.isBuffer(archive) ? Readable.from([archive]) : archive;
+      source.on('error', reject);
+      source.pipe(extract);
+    });
+  }
+
+  private get image(): string {
+    return this.config.chroot ? 'local:chroot' : 'local:directory';
+  }
+}
+
+// Docker resolves containers lazily too: a wrong ID fails on first use with 404
+class MissingContainer implements RuntimeContainer {
+  readonly commandsSeeRoot = false;
+
+  constructor(readonly id: string) {}
+
+  private fail(): never {
+    throw notFound(`No such container: ${this.id}`);
+  }
+
+  async inspect(): Promise<Docker.ContainerInspectInfo> { return this.fail(); }
+  async exec(): Promise<RuntimeExec> { return this.fail(); }
+  async logs(): Promise<Readable> { return this.fail(); }
+  async getArchive(): Promise<Readable> { return this.fail(); }
+  async putArchive(): Promise<void> { return this.fail(); }
+}
+
+/**
+ * Runtime for machines without a container engine: each configured
+ * container is a host directory, optionally entered with chroot. The
+ * containers always exist and are always running.
+ */
+export class LocalRuntime implements ContainerRuntime {
+  readonly kind = 'local' as const;
+  private readonly containers: LocalContainer[];
+
+  constructor(containers: Record<string, LocalContainerConfig>) {
+    const startedAt = new Date();
+    this.containers = Object.entries(containers).map(([name, config]) => {
+      if (!config.root || !path.isAbsolute(config.root)) {
+        throw new Error(`Local container '${name}': root must be an absolute path`);
+      }
+      return new LocalContainer(name, { ...config, root: path.resolve(config.root) }, startedAt);
+    });
+  }
+
+  async listContainers(options: RuntimeListOptions = {}): Promise<Docker.ContainerInfo[]> {
+    const filters = options.filters ?? {};
+    for (const key of Object.keys(filters)) {
+      if (key !== 'label' && key !== 'name') {
+        throw new Error(`Filter '${key}' is not supported by the local runtime`);
+      }
+    }
+
+    return this.containers.map(container => container.summary()).filter(info =>
+      (filters.label ?? []).every(filter => {
+        const [key, ...value] = filter.split('=');
+        return key in info.Labels && (value.length === 0 || info.Labels[key] === value.join('='));
+      }) &&
+      (filters.name ?? []).every(filter => info.Names[0].includes(filter))
+    );
+  }
+
+  getContainer(containerId: string): RuntimeContainer {
+    const id = containerId.replace(/^\//, '');
+    const container = this.containers.find(candidate => candidate.name === id)
+      ?? (/^[0-9a-f]+$/.test(id) ? this.containers.find(candidate => candidate.id.startsWith(id)) : undefined);
+    if (!container) {
+      return new MissingContainer(containerId);
+    }
+    return container;
+  }
+}
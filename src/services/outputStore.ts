@@ -0,0 +1,116 @@
+import { randomUUID } from 'crypto';
+import type { PatternMatcher } from '../utils/matchUtils.js';
+
+export type OutputStream = 'stdout' | 'stderr';
+
+export interface StoredOutput {
+  handle: string;
+  containerId: string;
+  command: string;
+  stdout: Buffer;
+  stderr: Buffer;
+  /** Collection stopped at the hard byte cap, so the output is incomplete */
+  capped: boolean;
+  /** Client whose call produced the output; when set, only that client can read it */
+  owner?: string;
+  createdAt: Date;
+}
+
+export interface OutputPage {
+  text: string;
+  offset: number;
+  next: number;
+  total: number;
+}
+
+export interface GrepMatch {
+  line: number;
+  text: string;
+  isMatch: boolean;
+}
+
+export interface OutputStoreOptions {
+  /** Total bytes kept across all entries; the oldest entries are evicted first (default: 100 MiB) */
+  maxTotalBytes?: number;
+}
+
+/**
+ * Bounded in-memory store for the full output of exec calls whose response was truncated.
+ * Entries are evicted oldest first once the total size exceeds the limit.
+ */
+export class OutputStore {
+  private entries = new Map<string, StoredOutput>();
+  private totalBytes = 0;
+  private readonly maxTotalBytes: number;
+
+  constructor(options: OutputStoreOptions = {}) {
+    this.maxTotalBytes = options.maxTotalBytes ?? 100 * 1024 * 1024;
+  }
+
+  put(output: Omit<StoredOutput, 'handle' | 'createdAt' | 'stdout' | 'stderr'> & { stdout: string; stderr: string }): StoredOutput {
+    const entry: StoredOutput = {
+      ...output,
+      handle: randomUUID().slice(0, 8),
+      stdout: Buffer.from(output.stdout, 'utf8'),
+      stderr: Buffer.from(output.stderr, 'utf8'),
+      createdAt: new Date()
+    };
+
+    this.entries.set(entry.handle, entry);
+    this.totalBytes += entry.stdout.length + entry.stderr.length;
+    this.evict(entry.handle);
+    return entry;
+  }
+
+  get(handle: string, owner?: string): StoredOutput {
+    const entry = this.entries.get(handle);
+    if (!entry || (entry.owner !== undefined && entry.owner !== owner)) {
+      throw new Error(`Output handle '${handle}' not found (it may have been evicted)`);
+    }
+    return entry;
+  }
+
+  page(handle: string, stream: OutputStream, offset: number, length: number, owner?: string): OutputPage {
+    const data = this.get(handle, owner)[stream];
+    const start = Math.min(Math.max(offset, 0), data.length);
+    const end = Math.min(start + length, data.length);
+    return { text: data.subarray(start, end).toString('utf8'), offset: start, next: end, total: data.length };
+  }
+
+  /**
+   * Lines matching `pattern`, each with `context` lines around it.
+   */
+  grep(handle: string, stream: OutputStream, pattern: PatternMatcher, context: number, maxMatches: number, owner?: string): { lines: GrepMatch[]; matches: number; limited: boolean } {
+    const lines = this.get(handle, owner)[stream].toString('utf8').split('\n');
+    const matched = pattern.matches(lines);
+    const selected = new Map<number, boolean>();
+    let matches = 0;
+    let limited = false;
+
+    for (let i = 0; i < lines.length; i++) {
+      if (!matched[i]) continue;
+      if (matches >= maxMatches) {
+        limited = true;
+        break;
+      }
+      matches += 1;
+      for (let j = Math.max(0, i - context); j <= Math.min(lines.length - 1, i + context); j++) {
+        selected.set(j, selected.get(j) === true || j === i);
+      }
+    }
+
+    const result = Array.from(selected.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([index, isMatch]) => ({ line: index + 1, text: lines[index], isMatch }));
+    return { lines: result, matches, limited };
+  }
+
+  private evict(keep: string): void {
+    for (const [handle, entry] of this.entries) {
+      if (this.totalBytes <= this.maxTotalBytes) break;
+      if (handle === keep) continue;
+      this.entries.delete(handle);
+      this.totalBytes -= entry.stdout.length + entry.stderr.length;
+    }
+  }
+}
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import { createHmac, randomBytes } from 'crypto';
+
+export interface RedactionRule {
+  name: string;
+  /**
+   * Regular expression. When it has a named group `secret` only that group
+   * is masked, otherwise the whole match.
+   */
+  pattern: string;
+  description?: string;
+}
+
+/**
+ * Rules file format for MCP_REDACT_RULES_FILE. Everything is optional and
+ * extends the built-in detectors.
+ */
+interface RedactionRulesFile {
+  patterns?: RedactionRule[];
+  /** Additional variable or field names whose values are secret, e.g. `DATABASE_URL` */
+  keys?: string[];
+}
+
+// Key names ending like *_TOKEN, *_PASSWORD, *_SECRET, API_KEY or "password" in JSON and YAML
+const SECRET_KEY_NAMES = '[A-Za-z0-9_.-]*(?:passw(?:or)?d|secret|token|api[_-]?key|access[_-]?key|private[_-]?key|secret[_-]?key[_-]?base|credentials?)';
+// Quoted value or a run up to whitespace, quote, comma or brace; already masked values are skipped
+const SECRET_VALUE = '(?!\\[REDACTED)(?<secret>"[^"\\n]+"|\'[^\'\\n]+\'|[^\\s"\',}]+)';
+
+function keyValuePattern(keyNames: string): string {
+  // The second lookbehind keeps rule names inside earlier masks from matching
+  return `(?<![A-Za-z0-9_.-])(?<!\\[REDACTED:)["']?(?:${keyNames})["']?[ \\t]*[:=][ \\t]*${SECRET_VALUE}`;
+}
+
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { name: 'private-key', pattern: '-----BEGIN [A-Z ]*PRIVATE KEY-----[\\s\\S]*?-----END [A-Z ]*PRIVATE KEY-----', description: 'PEM private key block' },
+  { name: 'jwt', pattern: '\\beyJ[A-Za-z0-9_-]{5,}\\.eyJ[A-Za-z0-9_-]{5,}\\.[A-Za-z0-9_-]+', description: 'JSON Web Token' },
+  { name: 'aws-access-key', pattern: '\\b(?:AKIA|ASIA)[0-9A-Z]{16}\\b', description: 'AWS access key ID' },
+  { name: 'secret-key', pattern: keyValuePattern(SECRET_KEY_NAMES), description: 'Value of a variable or field named like a secret' },
+  { name: 'bearer', pattern: '\\bBearer\\s+(?!\\[REDACTED)(?<secret>[A-Za-z0-9._~+/=-]{8,})', description: 'Bearer token in an Authorization header' },
+  { name: 'url-password', pattern: '\\b[a-z][a-z0-9+.-]*://[^\\s:/@]+:(?!\\[REDACTED)(?<secret>[^\\s@/]+)@', description: 'Password in a URL' }
+];
+
+const MASK_PATTERN = /\[REDACTED:[a-z0-9-]+:[0-9a-f]{6}\]/gi;
+
+function countMasks(text: string): number {
+  return text.match(MASK_PATTERN)?.length ?? 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Masks secrets in tool output before it reaches the client.
+ *
+ * Every detected value is replaced by `[REDACTED:<rule>:<hash>]`. The hash
+ * is a keyed hash of the value with a key that changes on every start, so an
+ * agent can tell two secrets apart or see that a value changed without the
+ * mask revealing anything about it.
+ */
+export class Redactor {
+  private readonly rules: Array<RedactionRule & { regex: RegExp }>;
+  private readonly hashKey = randomBytes(32);
+
+  constructor(rules: RedactionRule[] = DEFAULT_REDACTION_RULES, readonly enabled = true) {
+    this.rules = rules.map(rule => {
+      try {
+        return { ...rule, regex: new RegExp(rule.pattern, 'gi') };
+      } catch (error) {
+        throw new Error(`Invalid redaction pattern '${rule.name}': ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): Redactor {
+    let file: RedactionRulesFile = {};
+    if (env.MCP_REDACT_RULES_FILE) {
+      file = JSON.parse(fs.readFileSync(env.MCP_REDACT_RULES_FILE, 'utf8')) as RedactionRulesFile;
+    }
+
+    const rules = [...DEFAULT_REDACTION_RULES, ...(file.patterns ?? [])];
+    if (file.keys && file.keys.length > 0) {
+      rules.push({
+        name: 'configured-key',
+        pattern: keyValuePattern(file.keys.map(escapeRegExp).join('|')),
+        description: 'Value of a configured secret name'
+      });
+    }
+    return new Redactor(rules, env.MCP_REDACT !== 'false');
+  }
+
+  /**
+   * Mask all secrets in a text.
+   */
+  redact(text: string): string {
+    if (!this.enabled || !text) return text;
+
+    let result = text;
+    for (const rule of this.rules) {
+      result = result.replace(rule.regex, (...args) => {
+        const match = args[0] as string;
+        const groups = args[args.length - 1] as Record<string, string | undefined> | undefined;
+        const secret = typeof groups === 'object' ? groups?.secret : undefined;
+        if (secret === undefined) {
+          return this.mask(rule.name, match);
+        }
+        // Only the secret group is masked; the key name, quotes or URL around it stay readable
+        const offset = match.lastIndexOf(secret);
+        const quote = secret.length > 1 && /^["']/.test(secret) && secret.endsWith(secret[0]) ? secret[0] : '';
+        const masked = quote + this.mask(rule.name, quote ? secret.slice(1, -1) : secret) + quote;
+        return match.slice(0, offset) + masked + match.slice(offset + secret.length);
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Mask all strings in a JSON-like value, e.g. structured tool results.
+   */
+  redactValue<T>(value: T): T {
+    if (!this.enabled) return value;
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map(item => this.redactValue(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, this.redactValue(item)])) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Refuse content with more masks than the original, i.e. masked values
+   * that would be written back over the real secrets after the file was
+   * read through a tool.
+   */
+  assertNoNewMasks(content: string, original = ''): void {
+    if (this.enabled && countMasks(content) > countMasks(original)) {
+      throw new Error('The content contains masked secrets ([REDACTED:...]) that would replace the real values. Change only the lines you need with edit_file, leaving the masked lines alone.');
+    }
+  }
+
+  private mask(rule: string, value: string): string {
+    const hash = createHmac('sha256', this.hashKey).update(value).digest('hex').slice(0, 6);
+    return `[REDACTED:${rule}:${hash}]`;
+  }
+}
@@ -0,0 +1,296 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type Docker from 'dockerode';
+import { resolveAllowedHostPath } from '../utils/fileUtils.js';
+import { assertPullAllowed } from '../utils/buildUtils.js';
+import { matchesGlob } from '../utils/matchUtils.js';
+
+export const SANDBOX_LABEL = 'mcp.sandbox';
+export const SANDBOX_OWNER_LABEL = 'mcp.sandbox.owner';
+export const SANDBOX_EXPIRES_LABEL = 'mcp.sandbox.expires';
+
+export interface SandboxMount {
+  /** Absolute host path (bind mount) or a volume name */
+  source: string;
+  /** Absolute path in the container */
+  target: string;
+  readOnly?: boolean;
+}
+
+export interface SandboxCreateOptions {
+  image: string;
+  name?: string;
+  /** Command to run; by default the sandbox just stays alive for exec */
+  command?: string[];
+  env?: string[];
+  mounts?: SandboxMount[];
+  workingDir?: string;
+  memoryMb?: number;
+  cpus?: number;
+  pidsLimit?: number;
+  /** Docker network mode or network name (default: none) */
+  network?: string;
+  /** Seconds until the sandbox is removed */
+  ttl?: number;
+}
+
+export interface Sandbox {
+  id: string;
+  name: string;
+  image: string;
+  network: string;
+  memoryMb: number;
+  cpus: number;
+  pidsLimit: number;
+  mounts: SandboxMount[];
+  workingDir: string;
+  createdAt: Date;
+  expiresAt: Date;
+}
+
+export interface SandboxManagerOptions {
+  /** Distinguishes the sandboxes of this server from those of other servers on the same daemon */
+  owner?: string;
+  /** Maximum number of sandboxes of this owner (default: 5) */
+  maxSandboxes?: number;
+  /** Default TTL in seconds (default: 1 hour) */
+  defaultTtl?: number;
+  /** Maximum TTL in seconds (default: 24 hours) */
+  maxTtl?: number;
+  /** Default and maximum memory in MB (default: 1024) */
+  memoryMb?: number;
+  /** Default and maximum CPUs (default: 1) */
+  cpus?: number;
+  /** Default and maximum number of processes (default: 256) */
+  pidsLimit?: number;
+  /** Host directories that may be bind mounted; bind mounts are refused when empty */
+  mountRoots?: string[];
+  /** Glob patterns of named volumes that may be mounted; volume mounts are refused when empty */
+  volumes?: string[];
+  /** Registries missing images may be pulled from; pulls are refused when empty */
+  pullRegistries?: string[];
+  /** Seconds between reaper runs (default: 30) */
+  reapInterval?: number;
+}
+
+/**
+ * Throwaway containers created for agents.
+ *
+ * Sandboxes carry MCP labels with their owner and expiry time, so everything
+ * the reaper needs survives a server restart: it periodically removes this
+ * owner's sandboxes past their expiry, and on startup also removes stopped
+ * sandboxes a previous run of this server left behind. Sandboxes of other
+ * owners are left to the servers that created them.
+ */
+export class SandboxManager {
+  private readonly owner: string;
+  private readonly maxSandboxes: number;
+  private readonly defaultTtl: number;
+  private readonly maxTtl: number;
+  private readonly memoryMb: number;
+  private readonly cpus: number;
+  private readonly pidsLimit: number;
+  private readonly mountRoots: string[];
+  private readonly volumes: string[];
+  private readonly pullRegistries: string[];
+  private readonly reapInterval: number;
+  private reaper?: NodeJS.Timeout;
+  // Creations run one at a time so concurrent calls cannot exceed the limit
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly docker: Docker, options: SandboxManagerOptions = {}) {
+    this.owner = options.owner ?? 'default';
+    this.maxSandboxes = options.maxSandboxes ?? 5;
+    this.defaultTtl = options.defaultTtl ?? 60 * 60;
+    this.maxTtl = options.maxTtl ?? 24 * 60 * 60;
+    this.memoryMb = options.memoryMb ?? 1024;
+    this.cpus = options.cpus ?? 1;
+    this.pidsLimit = options.pidsLimit ?? 256;
+    this.mountRoots = options.mountRoots ?? [];
+    this.volumes = options.volumes ?? [];
+    this.pullRegistries = options.pullRegistries ?? [];
+    this.reapInterval = options.reapInterval ?? 30;
+  }
+
+  create(options: SandboxCreateOptions): Promise<Sandbox> {
+    const result = this.queue.then(() => this.createSandbox(options));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Sandboxes of this owner, including stopped ones.
+   */
+  async list(): Promise<Docker.ContainerInfo[]> {
+    return this.docker.listContainers({
+      all: true,
+      filters: { label: [`${SANDBOX_LABEL}=true`, `${SANDBOX_OWNER_LABEL}=${this.owner}`] }
+    });
+  }
+
+  /**
+   * Remove the expired sandboxes of this owner. With `orphans` also remove
+   * its stopped sandboxes. Sandboxes without a valid expiry label are never
+   * removed. Returns the names of removed containers.
+   */
+  async reap(orphans = false): Promise<string[]> {
+    const containers = await this.list();
+
+    const removed: string[] = [];
+    for (const container of containers) {
+      const expiresAt = Date.parse(container.Labels?.[SANDBOX_EXPIRES_LABEL] ?? '');
+      if (Number.isNaN(expiresAt)) continue;
+      const expired = expiresAt <= Date.now();
+      const orphaned = orphans && container.State !== 'running';
+      if (!expired && !orphaned) continue;
+
+      const name = container.Names?.[0]?.replace(/^\//, '') ?? container.Id.slice(0, 12);
+      try {
+        await this.docker.getContainer(container.Id).remove({ force: true, v: true });
+        removed.push(name);
+      } catch (error) {
+        console.error(`Failed to remove sandbox ${name}:`, error);
+      }
+    }
+    return removed;
+  }
+
+  /**
+   * Clean up orphans once and start the periodic reaper.
+   */
+  start(): void {
+    if (this.reaper) return;
+
+    const run = (orphans: boolean) => this.reap(orphans).then((removed) => {
+      if (removed.length > 0) {
+        console.error(`Removed ${removed.length} sandbox(es): ${removed.join(', ')}`);
+      }
+    }).catch((error) => {
+      console.error('Sandbox reaper failed:', error instanceof Error ? error.message : error);
+    });
+
+    run(true);
+    this.reaper = setInterval(() => run(false), this.reapInterval * 1000);
+    this.reaper.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.reaper);
+    this.reaper = undefined;
+  }
+
+  private async createSandbox(options: SandboxCreateOptions): Promise<Sandbox> {
+    const existing = await this.list();
+    if (existing.length >= this.maxSandboxes) {
+      throw new Error(`Sandbox limit reached: ${existing.length} of ${this.maxSandboxes} sandboxes exist (MCP_SANDBOX_MAX). Wait for one to expire or remove it.`);
+    }
+
+    const ttl = options.ttl ?? this.defaultTtl;
+    if (ttl <= 0 || ttl > this.maxTtl) {
+      throw new Error(`TTL must be between 1 and ${this.maxTtl} seconds (MCP_SANDBOX_MAX_TTL)`);
+    }
+
+    const network = options.network ?? 'none';
+    if (network === 'host' || network.startsWith('container:')) {
+      throw new Error(`Network mode '${network}' is not allowed for sandboxes`);
+    }
+
+    const memoryMb = this.limit('memory_mb', options.memoryMb, this.memoryMb, 'MCP_SANDBOX_MEMORY_MB');
+    const cpus = this.limit('cpus', options.cpus, this.cpus, 'MCP_SANDBOX_CPUS');
+    const pidsLimit = this.limit('pids_limit', options.pidsLimit, this.pidsLimit, 'MCP_SANDBOX_PIDS');
+    const mounts = (options.mounts ?? []).map(mount => this.resolveMount(mount));
+
+    await this.ensureImage(options.image);
+
+    const name = options.name ?? `mcp-sandbox-${randomUUID().slice(0, 8)}`;
+    const createdAt = new Date();
+    const expiresAt = new Date(createdAt.getTime() + ttl * 1000);
+
+    const container = await this.docker.createContainer({
+      name,
+      Image: options.image,
+      // [''] resets the image's entrypoint so `sleep` keeps the sandbox alive for exec
+      Entrypoint: options.command ? undefined : [''],
+      Cmd: options.command ?? ['sleep', 'infinity'],
+      Env: options.env,
+      // Without a working directory the image's WORKDIR applies
+      WorkingDir: options.workingDir,
+      Tty: false,
+      Labels: {
+        [SANDBOX_LABEL]: 'true',
+        [SANDBOX_OWNER_LABEL]: this.owner,
+        [SANDBOX_EXPIRES_LABEL]: expiresAt.toISOString()
+      },
+      HostConfig: {
+        Init: true,
+        NetworkMode: network,
+        Memory: memoryMb * 1024 * 1024,
+        NanoCpus: Math.round(cpus * 1e9),
+        PidsLimit: pidsLimit,
+        Mounts: mounts.map(mount => ({
+          Type: path.isAbsolute(mount.source) ? 'bind' as const : 'volume' as const,
+          Source: mount.source,
+          Target: mount.target,
+          ReadOnly: mount.readOnly ?? false
+        }))
+      }
+    });
+
+    let workingDir: string;
+    try {
+      await container.start();
+      workingDir = options.workingDir ?? ((await container.inspect()).Config.WorkingDir || '/');
+    } catch (error) {
+      await container.remove({ force: true, v: true }).catch(() => undefined);
+      throw error;
+    }
+
+    return { id: container.id, name, image: options.image, network, memoryMb, cpus, pidsLimit, mounts, workingDir, createdAt, expiresAt };
+  }
+
+  private limit(param: string, requested: number | undefined, maximum: number, setting: string): number {
+    const value = requested ?? maximum;
+    if (value <= 0 || value > maximum) {
+      throw new Error(`${param} must be greater than 0 and at most ${maximum} (${setting})`);
+    }
+    return value;
+  }
+
+  private resolveMount(mount: SandboxMount): SandboxMount {
+    if (!path.posix.isAbsolute(mount.target)) {
+      throw new Error(`Mount target '${mount.target}' must be an absolute path`);
+    }
+    if (!path.isAbsolute(mount.source)) {
+      if (this.volumes.length === 0) {
+        throw new Error('Volume mounts are disabled. Set MCP_SANDBOX_VOLUMES to allow named volumes.');
+      }
+      if (!this.volumes.some(pattern => matchesGlob(mount.source, pattern))) {
+        throw new Error(`Volume '${mount.source}' is not in MCP_SANDBOX_VOLUMES (${this.volumes.join(', ')})`);
+      }
+      return mount;
+    }
+    if (this.mountRoots.length === 0) {
+      throw new Error('Bind mounts are disabled. Set MCP_SANDBOX_MOUNT_ROOTS to allow host directories.');
+    }
+    return { ...mount, source: resolveAllowedHostPath(mount.source, this.mountRoots) };
+  }
+
+  /**
+   * Pull the image unless it is already present. Pulls are limited to
+   * MCP_PULL_REGISTRIES like those of pull_image.
+   */
+  private async ensureImage(image: string): Promise<void> {
+    try {
+      await this.docker.getImage(image).inspect();
+      return;
+    } catch (error) {
+      if ((error as { statusCode?: number }).statusCode !== 404) throw error;
+    }
+    assertPullAllowed(image, this.pullRegistries);
+
+    const stream = await this.docker.pull(image);
+    await new Promise<void>((resolve, reject) => {
+      this.docker.modem.followProgress(stream, (error: Error | null) => error ? reject(error) : resolve());
+    });
+  }
+}
@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import type { Writable } from 'stream';
+import type { DockerStreamType } from '../utils/dockerStream.js';
+import type { ContainerRuntime } from './containerRuntime.js';
+import { PROCESS_TAG_VAR, signalTaggedProcesses } from '../utils/processUtils.js';
+import { shellQuote } from '../utils/shellUtils.js';
+
+export interface ShellOpenOptions {
+  containerId: string;
+  /** Shell binary (default: /bin/bash) */
+  shell?: string;
+  workingDir?: string;
+  user?: string;
+  env?: string[];
+  /** Authenticated client opening the session */
+  owner?: string;
+}
+
+export interface ShellSession {
+  id: string;
+  containerId: string;
+  user?: string;
+  cwd: string;
+  openedAt: Date;
+  lastUsedAt: Date;
+  commandCount: number;
+  /** Client that opened the session; when set, only that client can use it */
+  owner?: string;
+}
+
+export interface ShellRunResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  cwd: string;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+export interface ShellSessionManagerOptions {
+  /** Close sessions that have not run a command for this many seconds (default: 30 minutes) */
+  idleTimeout?: number;
+  /** Maximum characters collected per stream and command (default: 1 MiB) */
+  maxOutputSize?: number;
+}
+
+interface PendingRun {
+  sentinel: string;
+  stdout: string;
+  stderr: string;
+  truncated: boolean;
+  exitCode?: number;
+  cwd?: string;
+  stderrDone: boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface SessionEntry {
+  session: ShellSession;
+  /** The shell's stdin */
+  stream: Writable;
+  closed: boolean;
+  queue: Promise<unknown>;
+  pending?: PendingRun;
+  idleTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Long-lived shell processes (bash, sh or ash) that keep cwd, exported
+ * variables and activated virtualenvs between commands.
+ *
+ * Commands are written to the shell's stdin wrapped in `eval`, followed by a
+ * random sentinel printed on stdout (with the exit code and $PWD) and on
+ * stderr. Output up to the sentinel belongs to the command. Each command runs
+ * with its own `MCP_JOB_ID=<session>.<n>` tag so a timed out command can be
+ * interrupted without killing the shell itself.
+ */
+export class ShellSessionManager {
+  private sessions = new Map<string, SessionEntry>();
+  private readonly idleTimeout: number;
+  private readonly maxOutputSize: number;
+
+  constructor(private readonly runtime: ContainerRuntime, options: ShellSessionManagerOptions = {}) {
+    this.idleTimeout = options.idleTimeout ?? 30 * 60;
+    this.maxOutputSize = options.maxOutputSize ?? 1024 * 1024;
+  }
+
+  async open(options: ShellOpenOptions): Promise<ShellSession> {
+    const { containerId, shell = '/bin/bash', workingDir, user, env, owner } = options;
+    const container = this.runtime.getContainer(containerId);
+
+    const info = await container.inspect();
+    if (!info.State.Running) {
+      throw new Error(`Container '${containerId}' is not running`);
+    }
+
+    const id = randomUUID().slice(0, 8);
+    // Output only arrives in response to commands, after `entry` is set
+    const exec = await container.exec({
+      // Startup files could print to the streams the protocol reads; sh and ash only read them for login shells
+      cmd: shell.endsWith('bash') ? [shell, '--noprofile', '--norc'] : [shell],
+      workingDir,
+      user,
+      env: [...(env ?? []), `${PROCESS_TAG_VAR}=${id}`],
+      stdin: true
+    }, (streamType, text) => this.onOutput(entry, streamType, text));
+
+    const entry: SessionEntry = {
+      session: {
+        id,
+        containerId,
+        user,
+        cwd: workingDir ?? '',
+        openedAt: new Date(),
+        lastUsedAt: new Date(),
+        commandCount: 0,
+        owner
+      },
+      stream: exec.stdin!,
+      closed: false,
+      queue: Promise.resolve()
+    };
+
+    exec.exited.then(
+      () => this.onExit(entry, 'Shell exited'),
+      (error: Error) => this.onExit(entry, `Shell stream error: ${error.message}`)
+    );
+
+    this.sessions.set(id, entry);
+
+    // Run a no-op to learn the initial working directory and make sure the shell is responsive
+    try {
+      const result = await this.run(id, ':', 30, owner);
+      entry.session.cwd = result.cwd;
+      entry.session.commandCount = 0;
+    } catch (error) {
+      await this.terminate(entry);
+      throw error;
+    }
+
+    return entry.session;
+  }
+
+  /**
+   * The session, unless it does not exist or belongs to a client other than `owner`.
+   */
+  get(sessionId: string, owner?: string): ShellSession | undefined {
+    const session = this.sessions.get(sessionId)?.session;
+    return session && this.visible(session, owner) ? session : undefined;
+  }
+
+  /**
+   * Sessions `owner` can use: its own and those opened without authentication.
+   */
+  list(owner?: string): ShellSession[] {
+    return Array.from(this.sessions.values()).map(entry => entry.session).filter(session => this.visible(session, owner));
+  }
+
+  /**
+   * Run a command in the session. Commands in one session run one at a time.
+   */
+  run(sessionId: string, command: string, timeout: number, owner?: string): Promise<ShellRunResult> {
+    const entry = this.getEntry(sessionId, owner);
+    const result = entry.queue.then(() => this.execute(entry, command, timeout));
+    entry.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read the exported environment of the session.
+   */
+  async env(sessionId: string, owner?: string): Promise<Record<string, string>> {
+    const result = await this.run(sessionId, 'env -0 | tr "\\0" "\\036"', 30, owner);
+    const env: Record<string, string> = {};
+    for (const entry of result.stdout.split('\x1e')) {
+      const index = entry.indexOf('=');
+      if (index <= 0) continue;
+      const name = entry.slice(0, index);
+      if (name === PROCESS_TAG_VAR) continue;
+      env[name] = entry.slice(index + 1);
+    }
+    return env;
+  }
+
+  async close(sessionId: string, owner?: string): Promise<ShellSession> {
+    const entry = this.getEntry(sessionId, owner);
+    await this.terminate(entry);
+    return entry.session;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(Array.from(this.sessions.values()).map(entry => this.terminate(entry)));
+  }
+
+  private async execute(entry: SessionEntry, command: string, timeout: number): Promise<ShellRunResult> {
+    if (entry.closed) {
+      throw new Error(`Shell session '${entry.session.id}' is closed`);
+    }
+
+    const { session } = entry;
+    session.commandCount += 1;
+    session.lastUsedAt = new Date();
+    this.resetIdleTimer(entry);
+
+    const runTag = `${session.id}.${session.commandCount}`;
+    const sentinel = `__MCP_SHELL_${randomUUID().replace(/-/g, '')}__`;
+
+    const done = new Promise<void>((resolve, reject) => {
+      entry.pending = {
+        sentinel,
+        stdout: '',
+        stderr: '',
+        truncated: false,
+        stderrDone: false,
+        resolve,
+        reject
+      };
+    });
+    const pending = entry.pending!;
+
+    // eval keeps cd/export in the shell and turns syntax errors into a non-zero exit
+    // status instead of leaving the shell waiting for more input. The command's stdin
+    // is /dev/null so it cannot swallow the next command.
+    entry.stream.write(
+      `${PROCESS_TAG_VAR}=${runTag} eval ${shellQuote(command)} < /dev/null\n` +
+      `printf '%s:%d:%s\\n' '${sentinel}' "$?" "$PWD"; printf '%s\\n' '${sentinel}' >&2\n`
+    );
+
+    let timedOut = false;
+    if (!(await this.settles(done, timeout))) {
+      timedOut = true;
+      // Interrupt the command's processes first, then kill them. If the shell is
+      // still busy after that it is stuck in a builtin loop and has to go.
+      await signalTaggedProcesses(this.runtime, session.containerId, runTag, 'INT');
+      if (!(await this.settles(done, 5))) {
+        await signalTaggedProcesses(this.runtime, session.containerId, runTag, 'KILL');
+        if (!(await this.settles(done, 5))) {
+          await this.terminate(entry);
+          throw new Error(`Command timed out after ${timeout}s and the shell did not recover (session '${session.id}' is closed)`);
+        }
+      }
+    }
+
+    // Rethrows if the shell went away while the command was running
+    await done;
+
+    entry.pending = undefined;
+    session.cwd = pending.cwd ?? session.cwd;
+    session.lastUsedAt = new Date();
+    this.resetIdleTimer(entry);
+
+    return {
+      stdout: pending.stdout,
+      stderr: pending.stderr,
+      exitCode: pending.exitCode ?? -1,
+      cwd: session.cwd,
+      timedOut,
+      truncated: pending.truncated
+    };
+  }
+
+  /**
+   * Resolve with whether `done` completed within `seconds`.
+   */
+  private async settles(done: Promise<void>, seconds: number): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const settled = await Promise.race([
+      done.then(() => true, () => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), seconds * 1000);
+      })
+    ]);
+    clearTimeout(timer);
+    return settled;
+  }
+
+  private onOutput(entry: SessionEntry, streamType: DockerStreamType, text: string): void {
+    const pending = entry.pending;
+    if (!pending) return;
+
+    if (streamType === 'stdout') {
+      pending.stdout += text;
+      const match = pending.stdout.match(new RegExp(`${pending.sentinel}:(-?\\d+):(.*)\\n`));
+      if (match && match.index !== undefined) {
+        pending.exitCode = parseInt(match[1], 10);
+        pending.cwd = match[2];
+        pending.stdout = pending.stdout.slice(0, match.index);
+      }
+    } else {
+      pending.stderr += text;
+      const index = pending.stderr.indexOf(`${pending.sentinel}\n`);
+      if (index !== -1) {
+        pending.stderrDone = true;
+        pending.stderr = pending.stderr.slice(0, index);
+      }
+    }
+
+    // Keep the tail of oversized output; the sentinel is always at the end
+    for (const key of ['stdout', 'stderr'] as const) {
+      const overflow = pending[key].length - this.maxOutputSize;
+      if (overflow > 0) {
+        pending[key] = pending[key].slice(overflow);
+        pending.truncated = true;
+      }
+    }
+
+    if (pending.exitCode !== undefined && pending.stderrDone) {
+      pending.resolve();
+    }
+  }
+
+  private onExit(entry: SessionEntry, reason: string): void {
+    if (entry.closed) return;
+    entry.closed = true;
+    clearTimeout(entry.idleTimer);
+    this.sessions.delete(entry.session.id);
+    entry.pending?.reject(new Error(`${reason} (session '${entry.session.id}' is closed)`));
+  }
+
+  private async terminate(entry: SessionEntry): Promise<void> {
+    if (entry.closed) return;
+
+    const { session } = entry;
+    this.onExit(entry, 'Shell closed');
+    entry.stream.end();
+
+    try {
+      // Also stops anything the session left running in the background
+      await signalTaggedProcesses(this.runtime, session.containerId, session.id, 'KILL');
+    } catch (error) {
+      console.error(`Failed to stop processes of shell session ${session.id}:`, error);
+    }
+  }
+
+  private resetIdleTimer(entry: SessionEntry): void {
+    clearTimeout(entry.idleTimer);
+    if (this.idleTimeout <= 0) return;
+
+    entry.idleTimer = setTimeout(() => {
+      // Sessions that are busy with a long command are not idle
+      if (entry.pending) {
+        this.resetIdleTimer(entry);
+        return;
+      }
+      console.error(`Closing idle shell session ${entry.session.id}`);
+      this.terminate(entry).catch(() => undefined);
+    }, this.idleTimeout * 1000);
+    entry.idleTimer.unref();
+  }
+
+  private visible(session: ShellSession, owner?: string): boolean {
+    return session.owner === undefined || session.owner === owner;
+  }
+
+  // Other clients' sessions are reported as missing rather than forbidden, so their IDs cannot be probed
+  private getEntry(sessionId: string, owner?: string): SessionEntry {
+    const entry = this.sessions.get(sessionId);
+    if (!entry || !this.visible(entry.session, owner)) {
+      throw new Error(`Shell session '${sessionId}' not found (it may have been closed after being idle)`);
+    }
+    return entry;
+  }
+}
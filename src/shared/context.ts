@@ -0,0 +1,130 @@
+import type { DockerHost, ToolContext } from './types.js';
+import { JobRegistry } from '../services/jobRegistry.js';
+import { ShellSessionManager } from '../services/shellSessions.js';
+import { ContainerPolicy } from '../services/containerPolicy.js';
+import { CommandGuard } from '../services/commandGuard.js';
+import { OutputStore } from '../services/outputStore.js';
+import { SandboxManager } from '../services/sandboxManager.js';
+import { AuditLog } from '../services/auditLog.js';
+import { Redactor } from '../services/redactor.js';
+import { ExecResolver } from '../services/execResolver.js';
+import { CallLimiter } from '../services/callLimiter.js';
+import { ContainerEventWatcher } from '../services/containerEvents.js';
+import { DockerHosts, createContainerRuntime, createDockerClient, describeEndpoint, loadDockerHostsConfig, type DockerHostConfig } from '../services/dockerHosts.js';
+import { allowedContainers } from '../services/authenticator.js';
+import { parseList } from '../utils/matchUtils.js';
+
+export function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const number = parseInt(value, 10);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function createDockerHost(name: string, config: DockerHostConfig): DockerHost {
+  const docker = createDockerClient(name, config);
+  const runtime = createContainerRuntime(name, config, docker);
+
+  return {
+    name,
+    endpoint: describeEndpoint(config),
+    docker,
+    runtime,
+    jobs: new JobRegistry(runtime),
+    shells: new ShellSessionManager(runtime, {
+      idleTimeout: parseNumber(process.env.MCP_SHELL_IDLE_TIMEOUT)
+    }),
+    policy: ContainerPolicy.fromEnv(runtime),
+    exec: ExecResolver.fromEnv(runtime),
+    events: new ContainerEventWatcher(docker, name),
+    sandboxes: new SandboxManager(docker, {
+      owner: process.env.MCP_SANDBOX_OWNER,
+      maxSandboxes: parseNumber(process.env.MCP_SANDBOX_MAX),
+      defaultTtl: parseNumber(process.env.MCP_SANDBOX_TTL),
+      maxTtl: parseNumber(process.env.MCP_SANDBOX_MAX_TTL),
+      memoryMb: parseNumber(process.env.MCP_SANDBOX_MEMORY_MB),
+      cpus: process.env.MCP_SANDBOX_CPUS ? parseFloat(process.env.MCP_SANDBOX_CPUS) : undefined,
+      pidsLimit: parseNumber(process.env.MCP_SANDBOX_PIDS),
+      mountRoots: parseList(process.env.MCP_SANDBOX_MOUNT_ROOTS),
+      volumes: parseList(process.env.MCP_SANDBOX_VOLUMES),
+      pullRegistries: parseList(process.env.MCP_PULL_REGISTRIES)
+    })
+  };
+}
+
+/**
+ * Create the tool context shared by the HTTP and stdio servers. Its
+ * host-specific services are those of the primary host.
+ */
+export function createToolContext(): ToolContext {
+  const config = loadDockerHostsConfig();
+  const hosts = new DockerHosts(
+    Object.entries(config.hosts).map(([name, hostConfig]) => createDockerHost(name, hostConfig)),
+    config.primary
+  );
+  const { docker, runtime, jobs, shells, policy, sandboxes, exec, events } = hosts.get();
+
+  return {
+    host: hosts.primary,
+    hosts,
+    docker,
+    runtime,
+    jobs,
+    shells,
+    policy,
+    sandboxes,
+    exec,
+    events,
+    guard: CommandGuard.fromEnv(),
+    outputs: new OutputStore({
+      maxTotalBytes: parseNumber(process.env.MCP_OUTPUT_STORE_BYTES)
+    }),
+    audit: new AuditLog({
+      file: process.env.MCP_AUDIT_LOG,
+      maxBytes: parseNumber(process.env.MCP_AUDIT_LOG_MAX_BYTES),
+      maxFiles: parseNumber(process.env.MCP_AUDIT_LOG_MAX_FILES)
+    }),
+    redactor: Redactor.fromEnv(),
+    limiter: new CallLimiter({
+      maxConcurrent: parseNumber(process.env.MCP_LIMIT_CONCURRENCY),
+      maxPerContainer: parseNumber(process.env.MCP_LIMIT_CONTAINER_CONCURRENCY),
+      maxQueue: parseNumber(process.env.MCP_LIMIT_QUEUE_SIZE),
+      maxWait: parseNumber(process.env.MCP_LIMIT_QUEUE_WAIT),
+      rate: parseNumber(process.env.MCP_RATE_LIMIT),
+      burst: parseNumber(process.env.MCP_RATE_LIMIT_BURST)
+    }),
+    settings: {
+      hostTransferRoots: parseList(process.env.MCP_HOST_TRANSFER_ROOTS),
+      maxFileSize: parseNumber(process.env.MCP_MAX_FILE_SIZE) ?? 10 * 1024 * 1024,
+      maxTransferSize: parseNumber(process.env.MCP_MAX_TRANSFER_SIZE) ?? 1024 * 1024 * 1024,
+      outputHeadBytes: parseNumber(process.env.MCP_OUTPUT_HEAD_BYTES) ?? 16 * 1024,
+      outputTailBytes: parseNumber(process.env.MCP_OUTPUT_TAIL_BYTES) ?? 16 * 1024,
+      outputMaxBytes: parseNumber(process.env.MCP_OUTPUT_MAX_BYTES) ?? 50 * 1024 * 1024,
+      streamInterval: parseNumber(process.env.MCP_STREAM_INTERVAL_MS) ?? 500,
+      allowRemove: process.env.MCP_ALLOW_REMOVE === 'true',
+      buildContextRoots: parseList(process.env.MCP_BUILD_CONTEXT_ROOTS),
+      pullRegistries: parseList(process.env.MCP_PULL_REGISTRIES)
+    }
+  };
+}
+
+/**
+ * The context for a tool call against the named host (the primary host when
+ * no name is given). Callers with a container allowlist get a policy limited
+ * to it. Throws for unknown hosts.
+ */
+export function selectHost(context: ToolContext, name?: string): ToolContext {
+  const { docker, runtime, jobs, shells, policy, sandboxes, exec, events } = context.hosts.get(name);
+  const containers = allowedContainers(context.auth);
+  return {
+    ...context,
+    host: name || context.hosts.primary,
+    docker,
+    runtime,
+    jobs,
+    shells,
+    policy: containers ? policy.restrictTo(context.auth!.clientId, containers) : policy,
+    sandboxes,
+    exec,
+    events
+  };
+}
@@ -0,0 +1,93 @@
+import { z } from 'zod';
+
+/**
+ * Output schema pieces shared by several tools. Timestamps are ISO strings.
+ */
+
+export const containerInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  image: z.string(),
+  created: z.string(),
+  state: z.object({
+    status: z.string(),
+    running: z.boolean(),
+    paused: z.boolean(),
+    restarting: z.boolean(),
+    pid: z.number(),
+    exitCode: z.number(),
+    health: z.string().optional(),
+    startedAt: z.string().optional(),
+    finishedAt: z.string().optional()
+  }),
+  network: z.object({
+    ipAddress: z.string().optional(),
+    gateway: z.string().optional(),
+    ports: z.array(z.object({
+      containerPort: z.string(),
+      hostIp: z.string().optional(),
+      hostPort: z.string().optional()
+    })),
+    networks: z.record(z.string(), z.string().optional())
+  }),
+  mounts: z.array(z.object({
+    type: z.string(),
+    source: z.string(),
+    destination: z.string(),
+    mode: z.string().optional()
+  })),
+  env: z.array(z.string()),
+  command: z.array(z.string()).optional(),
+  entrypoint: z.array(z.string()).optional(),
+  workingDir: z.string().optional(),
+  resources: z.object({
+    memoryBytes: z.number().optional(),
+    cpuShares: z.number().optional(),
+    nanoCpus: z.number().optional()
+  }),
+  restartPolicy: z.object({
+    name: z.string(),
+    maximumRetryCount: z.number().optional()
+  })
+});
+
+export const jobSchema = z.object({
+  id: z.string(),
+  containerId: z.string(),
+  command: z.string(),
+  status: z.enum(['running', 'exited', 'killed', 'timed_out', 'failed']),
+  exitCode: z.number().nullable(),
+  error: z.string().optional(),
+  startedAt: z.string(),
+  finishedAt: z.string().optional(),
+  durationMs: z.number(),
+  stdoutChars: z.number(),
+  stderrChars: z.number()
+});
+
+export const shellSessionSchema = z.object({
+  id: z.string(),
+  containerId: z.string(),
+  user: z.string().optional(),
+  cwd: z.string(),
+  openedAt: z.string(),
+  lastUsedAt: z.string(),
+  commandCount: z.number()
+});
+
+export const fileStatSchema = z.object({
+  path: z.string(),
+  type: z.string(),
+  size: z.number(),
+  /** Octal permission bits, e.g. "0644" */
+  mode: z.string(),
+  uid: z.number(),
+  gid: z.number(),
+  mtime: z.string().optional(),
+  linkTarget: z.string().optional()
+});
+
+export type ContainerInfoData = z.infer<typeof containerInfoSchema>;
+export type JobData = z.infer<typeof jobSchema>;
+export type ShellSessionData = z.infer<typeof shellSessionSchema>;
+export type FileStatData = z.infer<typeof fileStatSchema>;
@@ -1,18 +1,141 @@
-import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { CallToolResult, ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import { z } from 'zod';
 import Docker from 'dockerode';
+import type { JobRegistry } from '../services/jobRegistry.js';
+import type { ShellSessionManager } from '../services/shellSessions.js';
+import type { ContainerPolicy } from '../services/containerPolicy.js';
+import type { CommandGuard } from '../services/commandGuard.js';
+import type { OutputStore } from '../services/outputStore.js';
+import type { SandboxManager } from '../services/sandboxManager.js';
+import type { DockerHosts } from '../services/dockerHosts.js';
+import type { AuditLog } from '../services/auditLog.js';
+import type { Redactor } from '../services/redactor.js';
+import type { ExecResolver } from '../services/execResolver.js';
+import type { Scope } from '../services/authenticator.js';
+import type { CallLimiter } from '../services/callLimiter.js';
+import type { ContainerEventWatcher } from '../services/containerEvents.js';
+import type { ContainerRuntime } from '../services/containerRuntime.js';
+
+/**
+ * Per-request MCP data passed to tool handlers. Used to send requests back to
+ * the client (elicitation) and notifications related to the current call.
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
 
 export interface ToolFunction {
-  (params: any, context: ToolContext): Promise<CallToolResult>;
+  (params: any, context: ToolContext, extra?: ToolExtra): Promise<CallToolResult>;
 }
 
 export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: z.ZodObject<any>;
+  /** Shape of the `structuredContent` returned alongside the text block */
+  outputSchema: z.ZodObject<any>;
+  /** Scope a token needs to see and call the tool */
+  scope: Scope;
+  /** Counts against the concurrency limits of the containers it targets */
+  throttled?: boolean;
+  /** Uses the Docker client directly; refused on hosts with the local runtime */
+  requiresEngine?: boolean;
   handler: ToolFunction;
 }
 
-export interface ToolContext {
+/**
+ * Content of a resource read. Text is passed through secret redaction.
+ */
+export interface ResourceContent {
+  mimeType: string;
+  text?: string;
+  /** Base64 content of binary files */
+  blob?: string;
+}
+
+/**
+ * A view of one container, addressed as `container://<name>/<path>`.
+ */
+export interface ResourceDefinition {
+  name: string;
+  /** Template of the part after `container://{name}/`, e.g. `logs` or `file/{+path}` */
+  path: string;
+  description: string;
+  /** Content type, when it does not depend on the content */
+  mimeType?: string;
+  /** List the resource for every accessible container in resources/list */
+  listed: boolean;
+  read(container: string, variables: Record<string, string>, context: ToolContext): Promise<ResourceContent>;
+}
+
+export interface ToolSettings {
+  /** Host directories copy_into and copy_out_of may read from and write to */
+  hostTransferRoots: string[];
+  /** Maximum bytes read_file returns and write_file accepts per call */
+  maxFileSize: number;
+  /** Maximum bytes copy_into and copy_out_of transfer */
+  maxTransferSize: number;
+  /** Bytes of each exec stream kept from the start when truncating */
+  outputHeadBytes: number;
+  /** Bytes of each exec stream kept from the end when truncating */
+  outputTailBytes: number;
+  /** Hard cap on collected exec output; anything beyond it is discarded */
+  outputMaxBytes: number;
+  /** Minimum milliseconds between live output notifications of one exec call */
+  streamInterval: number;
+  /** Whether remove_container may delete containers (MCP_ALLOW_REMOVE) */
+  allowRemove: boolean;
+  /** Host directories build_image may use as build context; builds from a directory are refused when empty */
+  buildContextRoots: string[];
+  /** Registries pull_image may pull from, e.g. `localhost:5000`; pulls are refused when empty */
+  pullRegistries: string[];
+}
+
+/**
+ * A Docker endpoint and the services bound to it.
+ */
+export interface DockerHost {
+  name: string;
+  /** Endpoint URL for display, e.g. `ssh://deploy@build1` */
+  endpoint: string;
+  /** Engine API client; unusable on hosts with the local runtime */
   docker: Docker;
+  /** Containers for exec, file and log access, whatever runtime the host uses */
+  runtime: ContainerRuntime;
+  jobs: JobRegistry;
+  shells: ShellSessionManager;
+  /** Access policy every tool must check before touching a container */
+  policy: ContainerPolicy;
+  /** Throwaway containers created with create_sandbox */
+  sandboxes: SandboxManager;
+  /** Shell, working directory and user for commands run in a container */
+  exec: ExecResolver;
+  /** Docker event stream, used to keep resource subscribers up to date */
+  events: ContainerEventWatcher;
+}
+
+/**
+ * Services of the Docker host selected by the call's `host` parameter, plus
+ * the ones shared by all hosts.
+ */
+export interface ToolContext extends Omit<DockerHost, 'name' | 'endpoint'> {
+  /** Name of the selected host */
+  host: string;
+  /** All configured hosts, for tools that work across them */
+  hosts: DockerHosts;
+  /** Rule engine every command must pass before it runs */
+  guard: CommandGuard;
+  /** Full output of truncated exec results, read with exec_output_page */
+  outputs: OutputStore;
+  /** Trail of all tool calls, searched with audit_query */
+  audit: AuditLog;
+  /** Masks secrets in everything tools return */
+  redactor: Redactor;
+  /** Rate limits per caller and concurrency limits per container */
+  limiter: CallLimiter;
+  /** Keep the call's concurrency slots until `until` settles, for work that outlives the call */
+  holdSlots?: (until: Promise<unknown>) => void;
+  /** Authenticated caller; set for HTTP calls when authentication is enabled */
+  auth?: AuthInfo;
+  settings: ToolSettings;
 }
\ No newline at end of file
@@ -2,9 +2,9 @@
 import 'dotenv/config';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import Docker from 'dockerode';
-import type { ToolContext } from './shared/types.js';
-import { getAllTools } from './tools/registry.js';
+import { getAllTools, registerTools } from './tools/registry.js';
+import { AVAILABLE_RESOURCES, registerResources } from './resources/registry.js';
+import { createToolContext } from './shared/context.js';
 
 /*
  * DOCKER CONTAINER MCP SERVER (STDIO)
@@ -13,13 +13,8 @@ import { getAllTools } from './tools/registry.js';
  * It provides Docker container management and execution capabilities via stdio transport.
  */
 
-// Initialize Docker client
-const docker = new Docker();
-
 // Create tool context
-const toolContext: ToolContext = {
-  docker
-};
+const toolContext = createToolContext();
 
 const getServer = () => {
   const server = new McpServer({
@@ -28,24 +23,17 @@ const getServer = () => {
   }, { capabilities: { logging: {} } });
 
   // Register all tools from the registry
-  const tools = getAllTools();
-
-  tools.forEach(toolDef => {
-    server.tool(
-      toolDef.name,
-      toolDef.description,
-      toolDef.inputSchema.shape,
-      async (params: unknown) => {
-        return await toolDef.handler(params, toolContext);
-      }
-    );
-  });
+  registerTools(server, toolContext, 'stdio');
+  registerResources(server, toolContext, 'stdio');
 
+  const tools = getAllTools();
   console.error(`✅ Registered ${tools.length} tools:`);
   tools.forEach(tool => {
     console.error(`   • ${tool.name}: ${tool.description}`);
   });
 
+  console.error(`📚 Resources: ${AVAILABLE_RESOURCES.map(resource => `container://{name}/${resource.path}`).join(', ')}`);
+
   return server;
 };
 
@@ -57,10 +45,21 @@ async function main() {
   await server.connect(transport);
 
   console.error('🐳 Docker Container MCP Server running on stdio');
+  toolContext.hosts.list().forEach(host => {
+    console.error(`🔌 Docker host ${host.name}: ${host.endpoint}${host.name === toolContext.hosts.primary ? ' (primary)' : ''}`);
+  });
+  if (toolContext.policy.enabled) {
+    console.error('🛡️  Container access policy enabled');
+  }
+  if (toolContext.audit.enabled) {
+    console.error('📝 Audit log enabled');
+  }
+  toolContext.hosts.start();
 
   // Handle server shutdown
   const cleanup = async () => {
     console.error('\n🔄 Shutting down server...');
+    await toolContext.hosts.close();
     console.error('👋 Server shutdown complete');
     process.exit(0);
   };
@@ -0,0 +1,85 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { toAuditQuery, type AuditRecord } from '../services/auditLog.js';
+import { allowedContainers } from '../services/authenticator.js';
+import { formatDuration } from '../utils/jobUtils.js';
+import { formatBytes } from '../utils/outputUtils.js';
+
+const inputSchema = z.object({
+  since: z.string().optional().describe('Only calls after this time: ISO timestamp, Unix seconds or a relative duration like "12h"'),
+  until: z.string().optional().describe('Only calls before this time (same formats as since)'),
+  container: z.string().optional().describe('Container name or ID glob, e.g. "staging-*"'),
+  tool: z.string().optional().describe('Tool name glob, e.g. "exec*"'),
+  caller: z.string().optional().describe('Caller identity, e.g. "stdio" or "token:1a2b3c4d"'),
+  status: z.enum(['success', 'failure']).optional().describe('success: no error and exit code 0; failure: everything else'),
+  exit_code: z.number().optional().describe('Only calls that ended with this exit code'),
+  limit: z.number().optional().default(50).describe('Maximum number of records; the most recent are returned')
+});
+
+const outputSchema = z.object({
+  records: z.array(z.object({
+    timestamp: z.string(),
+    transport: z.enum(['http', 'stdio']),
+    caller: z.string(),
+    tool: z.string(),
+    host: z.string(),
+    containers: z.array(z.string()),
+    arguments: z.record(z.unknown()),
+    isError: z.boolean(),
+    exitCode: z.number().optional(),
+    durationMs: z.number(),
+    outputBytes: z.number(),
+    error: z.string().optional()
+  })).describe('Matching calls, oldest first')
+});
+
+function formatRecord(record: AuditRecord): string {
+  const outcome = record.isError
+    ? 'error'
+    : record.exitCode !== undefined ? `exit ${record.exitCode}` : 'ok';
+
+  let output = `${record.timestamp}  ${record.tool}  ${outcome}  ${record.durationMs < 1000 ? `${record.durationMs}ms` : formatDuration(record.durationMs)}  ${formatBytes(record.outputBytes)}\n`;
+  output += `  Caller: ${record.caller} (${record.transport})  Host: ${record.host}`;
+  if (record.containers.length > 0) {
+    output += `  Container: ${record.containers.join(', ')}`;
+  }
+  output += '\n';
+  if (typeof record.arguments.command === 'string') {
+    output += `  Command: ${record.arguments.command}\n`;
+  }
+  if (record.error) {
+    output += `  Error: ${record.error}\n`;
+  }
+  return output;
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { audit, auth } = context;
+
+  try {
+    // Callers limited to some containers only see their own calls
+    const caller = allowedContainers(auth) ? auth!.clientId : params.caller;
+    const records = await audit.query(toAuditQuery({ ...params, caller }));
+    if (records.length === 0) {
+      return createSuccessResponse('No audit records match.', { records: [] });
+    }
+
+    let output = `Audit Records (${records.length}):\n${'='.repeat(80)}\n\n`;
+    output += records.map(formatRecord).join('\n');
+
+    return createSuccessResponse(output.trim(), { records });
+  } catch (error) {
+    return createErrorResponse(error, 'Error querying audit log');
+  }
+}
+
+export const auditQuery: ToolDefinition = {
+  name: 'audit_query',
+  description: 'Search the audit log of tool calls by time range, container, tool, caller and exit status, e.g. "what ran on staging-* since 12h". Requires MCP_AUDIT_LOG.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
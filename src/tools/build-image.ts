@@ -0,0 +1,146 @@
+import path from 'path';
+import fs from 'fs';
+import { z } from 'zod';
+import type Docker from 'dockerode';
+import type { ToolDefinition, ToolContext, ToolExtra } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { resolveAllowedHostPath } from '../utils/fileUtils.js';
+import { truncateMiddle } from '../utils/outputUtils.js';
+import { OutputNotifier } from '../utils/notifyUtils.js';
+import { assertPullAllowed, collectBuildOutput, createBuildContext, dockerfileBaseImages } from '../utils/buildUtils.js';
+import { formatDuration } from '../utils/jobUtils.js';
+
+const inputSchema = z.object({
+  context_path: z.string().optional().describe('Build context directory on the MCP server host (must be inside MCP_BUILD_CONTEXT_ROOTS); omit to build an inline Dockerfile without context'),
+  dockerfile: z.string().optional().describe('Dockerfile path relative to the context, e.g. "docker/Dockerfile" (default: Dockerfile)'),
+  dockerfile_content: z.string().optional().describe('Inline Dockerfile to build instead of a file from the context'),
+  tag: z.string().optional().describe('Name and tag for the image, e.g. "myapp:dev"'),
+  build_args: z.record(z.string()).optional().describe('Build arguments (ARG values)'),
+  target: z.string().optional().describe('Stage of a multi-stage Dockerfile to build'),
+  no_cache: z.boolean().optional().default(false).describe('Build without using cached layers'),
+  pull: z.boolean().optional().default(false).describe('Pull newer versions of the base images (their registries must be in MCP_PULL_REGISTRIES)'),
+  timeout: z.number().optional().default(600).describe('Build timeout in seconds'),
+  head_bytes: z.number().optional().describe('Bytes of the build log to keep from the start before truncating (default: MCP_OUTPUT_HEAD_BYTES)'),
+  tail_bytes: z.number().optional().describe('Bytes of the build log to keep from the end before truncating (default: MCP_OUTPUT_TAIL_BYTES)'),
+  stream_output: z.boolean().optional().default(true).describe('Send the build log to the client while the build runs (as progress or log notifications)')
+});
+
+const outputSchema = z.object({
+  success: z.boolean(),
+  tag: z.string().optional(),
+  imageId: z.string().optional(),
+  error: z.string().optional().describe('Why the build failed'),
+  failedStep: z.object({
+    step: z.string().describe('Step number and total, e.g. 3/7'),
+    instruction: z.string()
+  }).optional().describe('Dockerfile instruction that failed'),
+  log: z.string().describe('Build log, truncated in the middle when long'),
+  logTruncated: z.boolean(),
+  durationMs: z.number()
+});
+
+async function imageExists(docker: Docker, image: string): Promise<boolean> {
+  try {
+    await docker.getImage(image).inspect();
+    return true;
+  } catch (error) {
+    if ((error as { statusCode?: number }).statusCode === 404) return false;
+    throw error;
+  }
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext, extra?: ToolExtra): Promise<CallToolResult> {
+  const { context_path, dockerfile, dockerfile_content, tag, build_args, target, no_cache, pull, timeout, head_bytes, tail_bytes, stream_output } = params;
+  const { docker, settings } = context;
+
+  try {
+    if (settings.buildContextRoots.length === 0) {
+      throw new Error('Image builds are disabled. Set MCP_BUILD_CONTEXT_ROOTS to allow them.');
+    }
+
+    let contextDir: string | undefined;
+    if (context_path) {
+      contextDir = resolveAllowedHostPath(context_path, settings.buildContextRoots);
+      if (!fs.existsSync(contextDir) || !fs.statSync(contextDir).isDirectory()) {
+        throw new Error(`Build context '${context_path}' is not a directory`);
+      }
+    }
+    if (dockerfile && (path.posix.isAbsolute(dockerfile) || path.posix.normalize(dockerfile).startsWith('..'))) {
+      throw new Error(`Dockerfile '${dockerfile}' must be a path inside the build context`);
+    }
+    if (dockerfile && dockerfile_content !== undefined) {
+      throw new Error('Give either dockerfile or dockerfile_content, not both');
+    }
+
+    // Base images the daemon would pull must come from the registries pull_image may use
+    const dockerfilePath = contextDir ? path.join(contextDir, dockerfile ?? 'Dockerfile') : undefined;
+    const content = dockerfile_content ?? (dockerfilePath && fs.existsSync(dockerfilePath) ? fs.readFileSync(dockerfilePath, 'utf8') : '');
+    for (const image of dockerfileBaseImages(content, build_args)) {
+      if (pull || !(await imageExists(docker, image))) {
+        assertPullAllowed(image, settings.pullRegistries);
+      }
+    }
+
+    const build = createBuildContext({ contextDir, dockerfile, dockerfileContent: dockerfile_content });
+    const startedAt = Date.now();
+    const notifier = stream_output && extra ? new OutputNotifier(extra, settings.streamInterval, context.redactor, 'build') : undefined;
+    const abort = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const result = await Promise.race([
+      docker.buildImage(build.archive as unknown as NodeJS.ReadableStream, {
+        dockerfile: build.dockerfile,
+        t: tag,
+        buildargs: build_args,
+        target,
+        nocache: no_cache,
+        pull,
+        rm: true,
+        forcerm: true,
+        abortSignal: abort.signal
+      }).then(stream => collectBuildOutput(stream, notifier ? text => notifier.write('stdout', text) : undefined)),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Build timeout after ${timeout}s`)), timeout * 1000);
+      })
+    ]).finally(() => {
+      clearTimeout(timer);
+      notifier?.close();
+      abort.abort();
+    });
+
+    const durationMs = Date.now() - startedAt;
+    const log = truncateMiddle(result.log, head_bytes ?? settings.outputHeadBytes, tail_bytes ?? settings.outputTailBytes);
+    const success = result.error === undefined;
+
+    let output = success
+      ? `Built ${tag ?? result.imageId ?? 'image'} in ${formatDuration(durationMs)}\n`
+      : `Build failed${result.failedStep ? ` at Step ${result.failedStep.step} : ${result.failedStep.instruction}` : ''}: ${result.error}\n`;
+    if (success && result.imageId) output += `Image ID: ${result.imageId}\n`;
+    output += `\nBuild Log:\n${log.text}`;
+
+    return createSuccessResponse(output.trim(), {
+      success,
+      tag,
+      imageId: result.imageId,
+      error: result.error,
+      failedStep: result.failedStep,
+      log: log.text,
+      logTruncated: log.omittedBytes > 0,
+      durationMs
+    }, !success);
+  } catch (error) {
+    return createErrorResponse(error, 'Error building image');
+  }
+}
+
+export const buildImage: ToolDefinition = {
+  name: 'build_image',
+  description: 'Build a Docker image from a build context directory on the MCP server host (limited to MCP_BUILD_CONTEXT_ROOTS) and/or an inline Dockerfile, with build args and a tag. Returns the build log; a failed build names the step that failed.',
+  inputSchema,
+  outputSchema,
+  scope: 'images:write',
+  requiresEngine: true,
+  throttled: true,
+  handler
+};
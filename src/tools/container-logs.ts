@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import { StringDecoder } from 'string_decoder';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { DockerStreamDemuxer, type DockerStreamType } from '../utils/dockerStream.js';
+import { truncateMiddle, formatBytes } from '../utils/outputUtils.js';
+import { parseTime } from '../utils/timeUtils.js';
+import { MAX_PATTERN_LENGTH, PatternMatcher } from '../utils/matchUtils.js';
+
+const MAX_FOLLOW_SECONDS = 300;
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  since: z.string().optional().describe('Only logs after this time: ISO timestamp, Unix seconds or a relative duration like "10m", "2h"'),
+  until: z.string().optional().describe('Only logs before this time (same formats as since)'),
+  tail: z.number().optional().default(200).describe('Number of lines from the end of the logs (0 for all)'),
+  pattern: z.string().optional().describe(`Regular expression (at most ${MAX_PATTERN_LENGTH} characters); only matching lines are returned`),
+  stream: z.enum(['both', 'stdout', 'stderr']).optional().default('both').describe('Which output stream to return'),
+  timestamps: z.boolean().optional().default(false).describe('Prefix every line with its timestamp'),
+  follow_seconds: z.number().optional().default(0).describe(`Keep collecting new output for this many seconds (max ${MAX_FOLLOW_SECONDS}), e.g. right after a restart`)
+});
+
+const outputSchema = z.object({
+  container: z.string(),
+  state: z.string(),
+  logs: z.string().describe('Matching lines, truncated in the middle when long'),
+  lineCount: z.number(),
+  followedSeconds: z.number(),
+  truncated: z.boolean(),
+  capped: z.boolean(),
+  outputHandle: z.string().optional().describe('Handle for exec_output_page when the logs were truncated')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, since, until, tail, pattern, stream, timestamps, follow_seconds } = params;
+  const { runtime, policy, outputs, settings } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (follow_seconds > MAX_FOLLOW_SECONDS) {
+      throw new Error(`follow_seconds must be at most ${MAX_FOLLOW_SECONDS}`);
+    }
+    const matcher = pattern ? new PatternMatcher(pattern) : undefined;
+    const follow = follow_seconds > 0 && info.State.Running;
+
+    const lines: string[] = [];
+    const partial: Record<DockerStreamType, string> = { stdout: '', stderr: '' };
+    let collected = 0;
+    let capped = false;
+    // Ends the log stream early once the cap is reached or the pattern fails
+    let stop: ((error?: Error) => void) | undefined;
+
+    const addLines = (streamType: DockerStreamType, batch: string[]) => {
+      if (capped || (stream !== 'both' && stream !== streamType)) return;
+      const matched = matcher?.matches(batch);
+      for (let i = 0; i < batch.length; i++) {
+        if (matched && !matched[i]) continue;
+        const text = stream === 'both' && streamType === 'stderr' ? `[stderr] ${batch[i]}` : batch[i];
+        collected += Buffer.byteLength(text) + 1;
+        if (collected > settings.outputMaxBytes) {
+          capped = true;
+          stop?.();
+          return;
+        }
+        lines.push(text);
+      }
+    };
+
+    const onData = (streamType: DockerStreamType, text: string) => {
+      const parts = (partial[streamType] + text).split('\n');
+      partial[streamType] = parts.pop() ?? '';
+      addLines(streamType, parts.map(line => line.replace(/\r$/, '')));
+    };
+
+    // Logs of TTY containers are a single raw stream, everything else is multiplexed like exec output
+    const decoder = new StringDecoder('utf8');
+    const demuxer = new DockerStreamDemuxer(onData);
+    const push = (chunk: Buffer) => info.Config.Tty ? onData('stdout', decoder.write(chunk)) : demuxer.push(chunk);
+
+    const logStream = await runtime.getContainer(container_id).logs({
+      stdout: true,
+      stderr: true,
+      follow,
+      timestamps,
+      tail: tail > 0 ? tail : undefined,
+      since: since ? parseTime(since, 'since') : undefined,
+      until: until ? parseTime(until, 'until') : undefined
+    });
+    await new Promise<void>((resolve, reject) => {
+      let timer: NodeJS.Timeout | undefined;
+      stop = (error?: Error) => {
+        clearTimeout(timer);
+        logStream.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      };
+      if (follow) {
+        timer = setTimeout(stop, follow_seconds * 1000);
+      }
+      logStream.on('data', (chunk: Buffer) => {
+        try {
+          push(chunk);
+        } catch (error) {
+          stop!(error as Error);
+        }
+      });
+      logStream.on('end', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      logStream.on('error', (error: Error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    if (info.Config.Tty) {
+      onData('stdout', decoder.end());
+    } else {
+      demuxer.end();
+    }
+    for (const streamType of ['stdout', 'stderr'] as const) {
+      if (partial[streamType]) addLines(streamType, [partial[streamType]]);
+    }
+
+    const name = info.Name.replace(/^\//, '');
+    let output = `Logs: ${name} (${info.State.Status})\n${'='.repeat(80)}\n\n`;
+    if (lines.length === 0) {
+      output += matcher ? `No lines match /${pattern}/.` : 'No log output.';
+      if (follow_seconds > 0 && !follow) output += ' The container is not running, so nothing was followed.';
+      return createSuccessResponse(output, {
+        container: name,
+        state: info.State.Status,
+        logs: '',
+        lineCount: 0,
+        followedSeconds: follow ? follow_seconds : 0,
+        truncated: false,
+        capped
+      });
+    }
+
+    const text = lines.join('\n');
+    const truncated = truncateMiddle(text, settings.outputHeadBytes, settings.outputTailBytes);
+    output += `${truncated.text}\n\n`;
+    output += `[${lines.length} line${lines.length === 1 ? '' : 's'}${follow ? `, followed for ${follow_seconds}s` : ''}]`;
+    if (follow_seconds > 0 && !follow) {
+      output += '\n[The container is not running, so nothing was followed]';
+    }
+    if (capped) {
+      output += `\n[Logs exceeded ${formatBytes(settings.outputMaxBytes)}; the rest was discarded]`;
+    }
+    let outputHandle: string | undefined;
+    if (truncated.omittedBytes > 0) {
+      const stored = outputs.put({
+        containerId: container_id,
+        command: 'container_logs',
+        stdout: text,
+        stderr: '',
+        capped,
+        owner: context.auth?.clientId
+      });
+      outputHandle = stored.handle;
+      output += `\n[Full logs (${formatBytes(Buffer.byteLength(text))}) stored as handle ${stored.handle}; use exec_output_page to read more]`;
+    }
+
+    return createSuccessResponse(output, {
+      container: name,
+      state: info.State.Status,
+      logs: truncated.text,
+      lineCount: lines.length,
+      followedSeconds: follow ? follow_seconds : 0,
+      truncated: truncated.omittedBytes > 0,
+      capped,
+      outputHandle
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error reading container logs');
+  }
+}
+
+export const containerLogs: ToolDefinition = {
+  name: 'container_logs',
+  description: 'Read the logs of a Docker container, also when it is stopped. Supports since/until, tail, regex filtering, stream selection, timestamps and following new output for a bounded number of seconds.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
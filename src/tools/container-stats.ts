@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { summarizeStats, formatUsage } from '../utils/statsUtils.js';
+
+const inputSchema = z.object({
+  container_ids: z.array(z.string()).min(1).describe('Container IDs, names or compose services (project/service[#index]) to sample, e.g. all services of a compose project')
+});
+
+const outputSchema = z.object({
+  containers: z.array(z.object({
+    container: z.string(),
+    state: z.string().optional(),
+    usage: z.object({
+      cpuPercent: z.number().describe('100 = one full core'),
+      onlineCpus: z.number(),
+      memoryUsed: z.number().describe('Bytes, without page cache'),
+      memoryLimit: z.number(),
+      memoryPercent: z.number(),
+      networkRx: z.number(),
+      networkTx: z.number(),
+      blockRead: z.number(),
+      blockWrite: z.number(),
+      pids: z.number().optional(),
+      pidsLimit: z.number().optional()
+    }).optional().describe('Missing when the container is not running'),
+    error: z.string().optional()
+  }))
+});
+
+type ContainerStatsData = z.infer<typeof outputSchema>['containers'][number];
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_ids } = params;
+  const { docker, policy } = context;
+
+  try {
+    // Sample all containers at the same time so the numbers are comparable
+    const results = await Promise.all(container_ids.map(async (containerId): Promise<{ text: string; data: ContainerStatsData }> => {
+      try {
+        const info = await policy.assertAccess(containerId);
+        const container = docker.getContainer(info.Id);
+        const name = info.Name.replace(/^\//, '');
+        if (!info.State.Running) {
+          return {
+            text: `Container: ${name}\nState:     ${info.State.Status} (no usage to report)\n`,
+            data: { container: name, state: info.State.Status }
+          };
+        }
+
+        const usage = summarizeStats(await container.stats({ stream: false }));
+        return {
+          text: `Container: ${name}\n${formatUsage(usage)}`,
+          data: { container: name, state: info.State.Status, usage }
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          text: `Container: ${containerId}\nError:     ${message}\n`,
+          data: { container: containerId, error: message }
+        };
+      }
+    }));
+
+    return createSuccessResponse(
+      `Container Stats:\n${'='.repeat(80)}\n\n${results.map(result => result.text).join('-'.repeat(80) + '\n\n')}`.trim(),
+      { containers: results.map(result => result.data) }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error getting container stats');
+  }
+}
+
+export const containerStats: ToolDefinition = {
+  name: 'container_stats',
+  description: 'Take a one-shot resource usage sample of one or more Docker containers: CPU %, memory used/limit, network and block I/O, and process count.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
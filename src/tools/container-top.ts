@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+
+const inputSchema = z.object({
+  container_ids: z.array(z.string()).min(1).describe('Container IDs, names or compose services (project/service[#index]) to list processes of'),
+  ps_args: z.string().optional().default('-ef').describe('Arguments passed to ps, e.g. "aux" for CPU and memory columns')
+});
+
+const outputSchema = z.object({
+  containers: z.array(z.object({
+    container: z.string(),
+    state: z.string().optional(),
+    titles: z.array(z.string()).optional(),
+    processes: z.array(z.array(z.string())).optional(),
+    error: z.string().optional()
+  }))
+});
+
+type ContainerTopData = z.infer<typeof outputSchema>['containers'][number];
+
+/**
+ * Render `top` output as an aligned table. The last column (the command) is not padded.
+ */
+function formatTable(titles: string[], rows: string[][]): string {
+  const widths = titles.map((title, i) => Math.max(title.length, ...rows.map(row => (row[i] ?? '').length)));
+  const render = (cells: string[]) => cells
+    .map((cell, i) => i === cells.length - 1 ? cell : cell.padEnd(widths[i]))
+    .join('  ');
+  return [render(titles), ...rows.map(render)].join('\n');
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_ids, ps_args } = params;
+  const { docker, policy } = context;
+
+  try {
+    const results = await Promise.all(container_ids.map(async (containerId): Promise<{ text: string; data: ContainerTopData }> => {
+      try {
+        const info = await policy.assertAccess(containerId);
+        const container = docker.getContainer(info.Id);
+        const name = info.Name.replace(/^\//, '');
+        if (!info.State.Running) {
+          return {
+            text: `Container: ${name} (${info.State.Status}, no processes)\n`,
+            data: { container: name, state: info.State.Status }
+          };
+        }
+
+        const top = await container.top({ ps_args }) as { Titles: string[]; Processes: string[][] | null };
+        const processes = top.Processes ?? [];
+        return {
+          text: `Container: ${name} (${processes.length} process${processes.length === 1 ? '' : 'es'})\n${formatTable(top.Titles, processes)}\n`,
+          data: { container: name, state: info.State.Status, titles: top.Titles, processes }
+        };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        return {
+          text: `Container: ${containerId}\nError: ${message}\n`,
+          data: { container: containerId, error: message }
+        };
+      }
+    }));
+
+    return createSuccessResponse(
+      `Container Processes:\n${'='.repeat(80)}\n\n${results.map(result => result.text).join('-'.repeat(80) + '\n\n')}`.trim(),
+      { containers: results.map(result => result.data) }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error listing container processes');
+  }
+}
+
+export const containerTop: ToolDefinition = {
+  name: 'container_top',
+  description: 'List the processes running in one or more Docker containers (like docker top), without needing ps inside the container.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
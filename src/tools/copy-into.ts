@@ -0,0 +1,80 @@
+import path from 'path';
+import fs from 'fs';
+import { z } from 'zod';
+import tarFs from 'tar-fs';
+import type { Readable } from 'stream';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { getHostPathSize, resolveAllowedHostPath } from '../utils/fileUtils.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  host_path: z.string().describe('File or directory on the MCP server host (must be inside MCP_HOST_TRANSFER_ROOTS)'),
+  container_path: z.string().describe('Existing directory in the container to copy into'),
+  uid: z.number().optional().describe('Owner user ID for the copied files (default: root)'),
+  gid: z.number().optional().describe('Owner group ID for the copied files (default: root)')
+});
+
+const outputSchema = z.object({
+  source: z.string().describe('Resolved host path'),
+  target: z.string().describe('Path of the copy in the container'),
+  entries: z.number(),
+  bytes: z.number()
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, host_path, container_path, uid, gid } = params;
+  const { runtime, policy, guard, settings } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const source = resolveAllowedHostPath(host_path, settings.hostTransferRoots);
+    if (!fs.existsSync(source)) {
+      throw new Error(`Host path '${host_path}' does not exist`);
+    }
+
+    const bytes = getHostPathSize(source);
+    if (bytes > settings.maxTransferSize) {
+      throw new Error(`'${host_path}' is ${bytes} bytes, more than the ${settings.maxTransferSize} bytes allowed (MCP_MAX_TRANSFER_SIZE)`);
+    }
+
+    let files = 0;
+    const archive = tarFs.pack(path.dirname(source), {
+      entries: [path.basename(source)],
+      map: (header) => {
+        files += 1;
+        if (uid !== undefined) header.uid = uid;
+        if (gid !== undefined) header.gid = gid;
+        return header;
+      }
+    });
+
+    const container = runtime.getContainer(container_id);
+    await container.putArchive(archive as unknown as Readable, {
+      path: container_path,
+      copyUIDGID: uid !== undefined || gid !== undefined
+    });
+
+    const target = path.posix.join(container_path, path.basename(source));
+    return createSuccessResponse(
+      `Copied ${files} entries (${bytes} bytes) from ${source} to ${container_id}:${target}`,
+      { source, target, entries: files, bytes }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error copying into container');
+  }
+}
+
+export const copyInto: ToolDefinition = {
+  name: 'copy_into',
+  description: 'Copy a file or directory from the MCP server host into a Docker container, preserving modes. Host paths are limited to MCP_HOST_TRANSFER_ROOTS.',
+  inputSchema,
+  outputSchema,
+  scope: 'files:write',
+  handler
+};
@@ -0,0 +1,74 @@
+import fs from 'fs';
+import { z } from 'zod';
+import tarFs from 'tar-fs';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { ensureDirectoryExists, resolveAllowedHostPath } from '../utils/fileUtils.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  container_path: z.string().describe('File or directory in the container'),
+  host_path: z.string().describe('Directory on the MCP server host to copy into (must be inside MCP_HOST_TRANSFER_ROOTS)')
+});
+
+const outputSchema = z.object({
+  source: z.string(),
+  destination: z.string().describe('Resolved host directory'),
+  entries: z.number(),
+  archiveBytes: z.number()
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, container_path, host_path } = params;
+  const { policy, settings } = context;
+
+  try {
+    const destination = resolveAllowedHostPath(host_path, settings.hostTransferRoots);
+    if (fs.existsSync(destination) && !fs.statSync(destination).isDirectory()) {
+      throw new Error(`Host path '${host_path}' is not a directory`);
+    }
+    ensureDirectoryExists(destination);
+
+    const container = await policy.getContainer(container_id);
+    const archive = await container.getArchive(container_path);
+
+    let files = 0;
+    let bytes = 0;
+    const extract = tarFs.extract(destination, {
+      map: (header) => {
+        files += 1;
+        return header;
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      archive.on('data', (chunk: Buffer) => {
+        bytes += chunk.length;
+        if (bytes > settings.maxTransferSize) {
+          archive.destroy(new Error(`Copy exceeds ${settings.maxTransferSize} bytes (MCP_MAX_TRANSFER_SIZE)`));
+        }
+      });
+      archive.on('error', reject);
+      extract.on('error', reject);
+      extract.on('finish', resolve);
+      archive.pipe(extract as unknown as NodeJS.WritableStream);
+    });
+
+    return createSuccessResponse(
+      `Copied ${files} entries (${bytes} bytes of archive) from ${container_id}:${container_path} to ${destination}`,
+      { source: container_path, destination, entries: files, archiveBytes: bytes }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error copying out of container');
+  }
+}
+
+export const copyOutOf: ToolDefinition = {
+  name: 'copy_out_of',
+  description: 'Copy a file or directory from a Docker container to a directory on the MCP server host. Host paths are limited to MCP_HOST_TRANSFER_ROOTS.',
+  inputSchema,
+  outputSchema,
+  scope: 'files:write',
+  handler
+};
@@ -0,0 +1,104 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { ContainerPolicy } from '../services/containerPolicy.js';
+import { formatDuration } from '../utils/jobUtils.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image to create the sandbox from, e.g. "python:3.12-slim" (pulled from MCP_PULL_REGISTRIES if missing)'),
+  name: z.string().optional().describe('Container name (default: mcp-sandbox-<random>)'),
+  command: z.array(z.string()).optional().describe('Command to run instead of keeping the sandbox idle for exec'),
+  env: z.array(z.string()).optional().describe('Environment variables (format: KEY=value)'),
+  mounts: z.array(z.object({
+    source: z.string().describe('Absolute host path (must be under MCP_SANDBOX_MOUNT_ROOTS) or a volume name (must match MCP_SANDBOX_VOLUMES)'),
+    target: z.string().describe('Absolute path in the sandbox'),
+    read_only: z.boolean().optional().default(false).describe('Mount read-only')
+  })).optional().describe('Bind mounts and volumes'),
+  working_dir: z.string().optional().describe('Working directory, created if missing (default: the image\'s WORKDIR)'),
+  memory_mb: z.number().optional().describe('Memory limit in MB (default and maximum: MCP_SANDBOX_MEMORY_MB)'),
+  cpus: z.number().optional().describe('CPU limit in cores (default and maximum: MCP_SANDBOX_CPUS)'),
+  pids_limit: z.number().optional().describe('Maximum number of processes (default and maximum: MCP_SANDBOX_PIDS)'),
+  network: z.string().optional().default('none').describe('Network mode or network name; "host" is not allowed'),
+  ttl: z.number().optional().describe('Seconds until the sandbox is removed (default: MCP_SANDBOX_TTL)')
+});
+
+const outputSchema = z.object({
+  sandbox: z.object({
+    id: z.string(),
+    name: z.string(),
+    image: z.string(),
+    network: z.string(),
+    memoryMb: z.number(),
+    cpus: z.number(),
+    pidsLimit: z.number(),
+    workingDir: z.string(),
+    mounts: z.array(z.object({
+      source: z.string(),
+      target: z.string(),
+      readOnly: z.boolean().optional()
+    })),
+    createdAt: z.string(),
+    expiresAt: z.string()
+  }),
+  policyAllowed: z.boolean().describe('Whether the container access policy lets other tools use the sandbox')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { image, name, command, env, mounts, working_dir, memory_mb, cpus, pids_limit, network, ttl } = params;
+  const { docker, policy, sandboxes } = context;
+
+  try {
+    const sandbox = await sandboxes.create({
+      image,
+      name,
+      command,
+      env,
+      mounts: mounts?.map(mount => ({ source: mount.source, target: mount.target, readOnly: mount.read_only })),
+      workingDir: working_dir,
+      memoryMb: memory_mb,
+      cpus,
+      pidsLimit: pids_limit,
+      network,
+      ttl
+    });
+
+    let output = `Sandbox created: ${sandbox.name}\n${'='.repeat(80)}\n\n`;
+    output += `ID:          ${sandbox.id}\n`;
+    output += `Name:        ${sandbox.name}\n`;
+    output += `Image:       ${sandbox.image}\n`;
+    output += `Network:     ${sandbox.network}\n`;
+    output += `Memory:      ${sandbox.memoryMb} MB\n`;
+    output += `CPUs:        ${sandbox.cpus}\n`;
+    output += `PIDs Limit:  ${sandbox.pidsLimit}\n`;
+    output += `Working Dir: ${sandbox.workingDir}\n`;
+    output += `Expires:     ${sandbox.expiresAt.toISOString()} (in ${formatDuration(sandbox.expiresAt.getTime() - sandbox.createdAt.getTime())})\n`;
+    if (sandbox.mounts.length > 0) {
+      output += `Mounts:\n`;
+      for (const mount of sandbox.mounts) {
+        output += `  ${mount.source} -> ${mount.target}${mount.readOnly ? ' (read-only)' : ''}\n`;
+      }
+    }
+
+    const decision = policy.evaluate(ContainerPolicy.targetFromInspect(await docker.getContainer(sandbox.id).inspect()));
+    if (decision.allowed) {
+      output += `\nUse the ID or name as container_id with exec, shell_open and the file tools.`;
+    } else {
+      output += `\nWarning: the container access policy denies this sandbox (${decision.reason}), so other tools cannot use it. Allow the 'mcp.sandbox' label with MCP_CONTAINER_ALLOW_LABELS.`;
+    }
+
+    return createSuccessResponse(output, { sandbox, policyAllowed: decision.allowed });
+  } catch (error) {
+    return createErrorResponse(error, 'Error creating sandbox');
+  }
+}
+
+export const createSandbox: ToolDefinition = {
+  name: 'create_sandbox',
+  description: 'Create a throwaway sandbox container from an image with CPU, memory and process limits, no network by default, and a TTL after which it is removed automatically. Returns the container ID to use with exec.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,78 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  path: z.string().optional().describe('Only changes at or below this path, e.g. "/etc"'),
+  limit: z.number().optional().default(500).describe('Maximum number of changes to return')
+});
+
+const changeKind = z.enum(['changed', 'added', 'deleted']);
+
+const outputSchema = z.object({
+  changes: z.array(z.object({
+    path: z.string(),
+    kind: changeKind
+  })),
+  counts: z.object({
+    changed: z.number(),
+    added: z.number(),
+    deleted: z.number()
+  }).describe('Number of changes of each kind, including those beyond the limit'),
+  truncated: z.boolean()
+});
+
+// Kind values of the Docker changes API
+const KINDS: Array<z.infer<typeof changeKind>> = ['changed', 'added', 'deleted'];
+const MARKERS = { changed: 'C', added: 'A', deleted: 'D' };
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, path, limit } = params;
+  const { docker, policy } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    const prefix = path?.replace(/\/+$/, '');
+    const raw = (await docker.getContainer(info.Id).changes() ?? []) as Array<{ Path: string; Kind: number }>;
+
+    const all = raw
+      .filter(change => !prefix || change.Path === prefix || change.Path.startsWith(`${prefix}/`))
+      .map(change => ({ path: change.Path, kind: KINDS[change.Kind] ?? 'changed' }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+    const counts = { changed: 0, added: 0, deleted: 0 };
+    all.forEach(change => counts[change.kind]++);
+    const changes = all.slice(0, limit);
+    const truncated = all.length > changes.length;
+
+    const name = info.Name.replace(/^\//, '');
+    if (all.length === 0) {
+      return createSuccessResponse(
+        `No filesystem changes in ${name}${prefix ? ` below ${prefix}` : ''} since it was created.`,
+        { changes: [], counts, truncated: false }
+      );
+    }
+
+    let output = `Changes in ${name}${prefix ? ` below ${prefix}` : ''} since it was created: `;
+    output += `${counts.added} added, ${counts.changed} changed, ${counts.deleted} deleted\n\n`;
+    output += changes.map(change => `${MARKERS[change.kind]} ${change.path}`).join('\n');
+    if (truncated) {
+      output += `\n\n[${all.length - changes.length} more changes; narrow with path or raise limit]`;
+    }
+
+    return createSuccessResponse(output, { changes, counts, truncated });
+  } catch (error) {
+    return createErrorResponse(error, 'Error diffing container');
+  }
+}
+
+export const diffContainer: ToolDefinition = {
+  name: 'diff_container',
+  description: 'Show the files and directories added (A), changed (C) or deleted (D) in a container\'s filesystem since it was created. Volumes and bind mounts are not included.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
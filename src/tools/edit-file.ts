@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { readContainerFile, replaceContainerFile } from '../utils/containerFiles.js';
+import { applySearchReplace, applyUnifiedDiff, createDiffPreview, type EditOutcome } from '../utils/patchUtils.js';
+
+const MAX_PREVIEW_LINES = 300;
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  path: z.string().describe('Absolute path of the file in the container'),
+  diff: z.string().optional().describe('Unified diff for this file (as produced by diff -u or git diff)'),
+  edits: z.array(z.object({
+    search: z.string().describe('Exact text to find'),
+    replace: z.string().describe('Text to replace it with'),
+    replace_all: z.boolean().optional().default(false).describe('Replace every occurrence instead of requiring a unique match')
+  })).optional().describe('Search/replace blocks, applied in order'),
+  fuzz: z.number().optional().default(2).describe('Maximum number of mismatching context lines allowed per diff hunk'),
+  dry_run: z.boolean().optional().default(false).describe('Only report what would change, do not write the file')
+});
+
+const outputSchema = z.object({
+  path: z.string(),
+  results: z.array(z.object({
+    index: z.number().describe('1-based index of the hunk or search/replace block'),
+    applied: z.boolean(),
+    detail: z.string()
+  })),
+  failed: z.number().describe('Number of hunks or blocks that did not apply'),
+  changed: z.boolean().describe('Whether the edits change the file content'),
+  written: z.boolean(),
+  atomic: z.boolean().optional().describe('Whether the file was replaced atomically'),
+  dryRun: z.boolean(),
+  diff: z.string().optional().describe('Unified diff of the change')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, path, diff, edits, fuzz, dry_run } = params;
+  const { runtime, policy, guard, redactor, settings } = context;
+
+  try {
+    if ((diff === undefined) === (edits === undefined)) {
+      throw new Error('Provide either diff or edits');
+    }
+
+    const info = await policy.assertAccess(container_id);
+    if (!dry_run && guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const container = runtime.getContainer(container_id);
+    const { stat, data } = await readContainerFile(container, path, { length: settings.maxFileSize });
+    if (stat.size > settings.maxFileSize) {
+      throw new Error(`File is ${stat.size} bytes, more than the ${settings.maxFileSize} bytes allowed (MCP_MAX_FILE_SIZE)`);
+    }
+    if (data.includes(0)) {
+      throw new Error(`'${path}' is a binary file`);
+    }
+
+    const original = data.toString('utf8');
+    const outcome: EditOutcome = diff !== undefined
+      ? applyUnifiedDiff(original, diff, fuzz)
+      : applySearchReplace(original, edits!.map(edit => ({ search: edit.search, replace: edit.replace, replaceAll: edit.replace_all })));
+
+    redactor.assertNoNewMasks(outcome.content, original);
+
+    const failed = outcome.reports.filter(report => !report.applied).length;
+    const label = diff !== undefined ? 'Hunk' : 'Edit';
+
+    let output = `File: ${path}\n${'='.repeat(80)}\n\n`;
+    for (const report of outcome.reports) {
+      output += `${label} ${report.index}: ${report.applied ? 'OK    ' : 'FAILED'} ${report.detail}\n`;
+    }
+    output += '\n';
+
+    let written = false;
+    let atomic: boolean | undefined;
+    let diffPreview: string | undefined;
+
+    if (outcome.content === original) {
+      output += 'No changes.';
+    } else {
+      diffPreview = createDiffPreview(path, original, outcome.content);
+      const preview = diffPreview.split('\n');
+      output += `Diff preview:\n${preview.slice(0, MAX_PREVIEW_LINES).join('\n')}\n`;
+      if (preview.length > MAX_PREVIEW_LINES) {
+        output += `[${preview.length - MAX_PREVIEW_LINES} more diff lines]\n`;
+      }
+      output += '\n';
+
+      if (failed > 0) {
+        output += `${failed} of ${outcome.reports.length} ${label.toLowerCase()}s failed; the file was not modified.`;
+      } else if (dry_run) {
+        output += 'Dry run: the file was not modified.';
+      } else {
+        ({ atomic } = await replaceContainerFile(container, path, Buffer.from(outcome.content, 'utf8'), stat));
+        written = true;
+        output += `Wrote ${Buffer.byteLength(outcome.content)} bytes to ${path}${atomic ? '' : ' (in place, mv is not available in the container)'}.`;
+      }
+    }
+
+    // Failed hunks leave the file untouched, so the call did not do what was asked
+    return createSuccessResponse(output, {
+      path,
+      results: outcome.reports,
+      failed,
+      changed: outcome.content !== original,
+      written,
+      atomic,
+      dryRun: dry_run,
+      diff: diffPreview
+    }, failed > 0);
+  } catch (error) {
+    return createErrorResponse(error, 'Error editing file');
+  }
+}
+
+export const editFile: ToolDefinition = {
+  name: 'edit_file',
+  description: 'Edit a file in a Docker container by applying a unified diff or exact search/replace blocks. Reports each hunk, shows a diff preview and writes the file atomically only if every edit applies. Supports dry_run.',
+  inputSchema,
+  outputSchema,
+  scope: 'files:write',
+  handler
+};
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatJobSummary, toJobData } from '../utils/jobUtils.js';
+import { jobSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  job_id: z.string().describe('Job ID returned by exec_start'),
+  signal: z.enum(['TERM', 'INT', 'HUP', 'KILL']).optional().default('TERM').describe('Signal to send to the job\'s process tree (escalates to KILL if it does not exit)')
+});
+
+const outputSchema = z.object({
+  job: jobSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { job_id, signal } = params;
+  const { jobs } = context;
+
+  try {
+    const job = await jobs.kill(job_id, signal, context.auth?.clientId);
+
+    return createSuccessResponse(formatJobSummary(job), { job: toJobData(job) });
+  } catch (error) {
+    return createErrorResponse(error, 'Error killing job');
+  }
+}
+
+export const execKill: ToolDefinition = {
+  name: 'exec_kill',
+  description: 'Stop a background job started with exec_start, terminating every process it spawned inside the container.',
+  inputSchema,
+  outputSchema,
+  scope: 'exec',
+  handler
+};
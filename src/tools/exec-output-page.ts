@@ -0,0 +1,90 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { MAX_PATTERN_LENGTH, PatternMatcher } from '../utils/matchUtils.js';
+
+const inputSchema = z.object({
+  handle: z.string().describe('Output handle returned by a truncated exec result'),
+  stream: z.enum(['stdout', 'stderr']).optional().default('stdout').describe('Which stream to read'),
+  offset: z.number().optional().default(0).describe('Byte offset to start reading at'),
+  length: z.number().optional().default(16384).describe('Maximum number of bytes to return'),
+  pattern: z.string().optional().describe(`Regular expression (at most ${MAX_PATTERN_LENGTH} characters); when set, return matching lines instead of a byte range`),
+  context: z.number().optional().default(2).describe('Lines of context around each match'),
+  max_matches: z.number().optional().default(100).describe('Maximum number of matches to return')
+});
+
+const outputSchema = z.object({
+  handle: z.string(),
+  stream: z.enum(['stdout', 'stderr']),
+  command: z.string(),
+  capped: z.boolean(),
+  page: z.object({
+    text: z.string(),
+    offset: z.number(),
+    next: z.number(),
+    total: z.number()
+  }).optional().describe('Byte range, when no pattern was given'),
+  matches: z.object({
+    lines: z.array(z.object({
+      line: z.number(),
+      text: z.string(),
+      isMatch: z.boolean()
+    })),
+    count: z.number(),
+    limited: z.boolean()
+  }).optional().describe('Matching lines with context, when a pattern was given')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { handle, stream, offset, length, pattern, context: contextLines, max_matches } = params;
+  const { outputs } = context;
+
+  try {
+    const owner = context.auth?.clientId;
+    const stored = outputs.get(handle, owner);
+    let output = `Output ${handle} (${stream}) of: ${stored.command}\n`;
+    if (stored.capped) {
+      output += '[Output was capped while collecting; later output is missing]\n';
+    }
+    output += '\n';
+
+    const data: z.infer<typeof outputSchema> = { handle, stream, command: stored.command, capped: stored.capped };
+    if (pattern) {
+      const { lines, matches, limited } = outputs.grep(handle, stream, new PatternMatcher(pattern), contextLines, max_matches, owner);
+      if (matches === 0) {
+        output += `No lines match /${pattern}/.`;
+      } else {
+        let previous = 0;
+        for (const line of lines) {
+          if (previous && line.line > previous + 1) output += '--\n';
+          output += `${line.line}${line.isMatch ? ':' : '-'}${line.text}\n`;
+          previous = line.line;
+        }
+        output += `\n${matches} matching line${matches > 1 ? 's' : ''}${limited ? ` (stopped after ${max_matches})` : ''}`;
+      }
+      data.matches = { lines, count: matches, limited };
+    } else {
+      const page = outputs.page(handle, stream, offset, length, owner);
+      output += `${page.text}\n\n`;
+      output += `Bytes ${page.offset}-${page.next} of ${page.total}`;
+      if (page.next < page.total) {
+        output += `; next offset: ${page.next}`;
+      }
+      data.page = page;
+    }
+
+    return createSuccessResponse(output, data);
+  } catch (error) {
+    return createErrorResponse(error, 'Error reading output');
+  }
+}
+
+export const execOutputPage: ToolDefinition = {
+  name: 'exec_output_page',
+  description: 'Read more of a truncated exec result by byte offset, or search it with a regular expression (grep-style, with context lines).',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
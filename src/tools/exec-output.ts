@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import type { JobOutputSlice } from '../services/jobRegistry.js';
+
+const inputSchema = z.object({
+  job_id: z.string().describe('Job ID returned by exec_start'),
+  stdout_offset: z.number().optional().default(0).describe('Offset to read stdout from (use next_stdout_offset from the previous call)'),
+  stderr_offset: z.number().optional().default(0).describe('Offset to read stderr from (use next_stderr_offset from the previous call)'),
+  max_chars: z.number().optional().default(65536).describe('Maximum characters to return per stream')
+});
+
+const sliceSchema = z.object({
+  text: z.string(),
+  start: z.number().describe('Offset the text starts at (past the requested offset if output was dropped)'),
+  next: z.number().describe('Offset to pass on the next call'),
+  total: z.number().describe('Total characters the stream produced so far')
+});
+
+const outputSchema = z.object({
+  jobId: z.string(),
+  status: z.enum(['running', 'exited', 'killed', 'timed_out', 'failed']),
+  exitCode: z.number().nullable(),
+  stdout: sliceSchema,
+  stderr: sliceSchema
+});
+
+function formatSlice(label: string, requested: number, slice: JobOutputSlice): string {
+  let output = '';
+  if (slice.start > requested) {
+    output += `[${slice.start - requested} chars of ${label} no longer buffered]\n`;
+  }
+  if (slice.text) {
+    output += `${label.toUpperCase()}:\n${slice.text}\n`;
+  }
+  return output;
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { job_id, stdout_offset, stderr_offset, max_chars } = params;
+  const { jobs } = context;
+
+  try {
+    const owner = context.auth?.clientId;
+    const job = jobs.get(job_id, owner);
+    if (!job) {
+      throw new Error(`Job '${job_id}' not found`);
+    }
+
+    const stdout = jobs.read(job_id, 'stdout', stdout_offset, max_chars, owner);
+    const stderr = jobs.read(job_id, 'stderr', stderr_offset, max_chars, owner);
+
+    let output = formatSlice('stdout', stdout_offset, stdout);
+    output += formatSlice('stderr', stderr_offset, stderr);
+    if (!stdout.text && !stderr.text) {
+      output += 'No new output.\n';
+    }
+
+    output += `\nStatus: ${job.status}`;
+    if (job.exitCode !== null) output += ` (exit code ${job.exitCode})`;
+    output += `\nnext_stdout_offset: ${stdout.next}${stdout.next < stdout.total ? ` (${stdout.total - stdout.next} more chars available)` : ''}`;
+    output += `\nnext_stderr_offset: ${stderr.next}${stderr.next < stderr.total ? ` (${stderr.total - stderr.next} more chars available)` : ''}`;
+
+    return createSuccessResponse(output, {
+      jobId: job.id,
+      status: job.status,
+      exitCode: job.exitCode,
+      stdout,
+      stderr
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error reading job output');
+  }
+}
+
+export const execOutput: ToolDefinition = {
+  name: 'exec_output',
+  description: 'Read the output of a background job incrementally. Pass the offsets returned by the previous call to only get new output.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
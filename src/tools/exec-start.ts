@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext, ToolExtra } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatJobSummary, toJobData } from '../utils/jobUtils.js';
+import { jobSchema } from '../shared/schemas.js';
+import { formatGuardRefusal } from '../services/commandGuard.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  command: z.string().optional().describe('Command line to execute through the container\'s shell (bash, sh or ash, whichever exists)'),
+  argv: z.array(z.string()).optional().describe('Program and arguments to execute without a shell; use instead of command'),
+  working_dir: z.string().optional().describe('Working directory for the command (default: configured for the container, else the image\'s WORKDIR)'),
+  user: z.string().optional().describe('User to run the command as (default: configured for the container, else the image\'s USER)'),
+  env: z.array(z.string()).optional().describe('Environment variables (format: KEY=value)'),
+  timeout: z.number().optional().describe('Kill the job after this many seconds (default: no timeout)')
+});
+
+const outputSchema = z.object({
+  job: jobSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext, extra?: ToolExtra): Promise<CallToolResult> {
+  const { container_id, env, timeout } = params;
+  const { jobs, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    const { cmd, commandLine: command, workingDir, user } = await context.exec.resolve(info, {
+      command: params.command,
+      argv: params.argv,
+      workingDir: params.working_dir,
+      user: params.user
+    });
+
+    const decision = await guard.authorize(command, [container_id, info.Name.replace(/^\//, '')], extra);
+    if (decision.action !== 'allow') {
+      return createErrorResponse(formatGuardRefusal(command, decision));
+    }
+
+    const job = await jobs.start({
+      containerId: container_id,
+      command,
+      cmd,
+      workingDir,
+      user,
+      env,
+      timeout,
+      owner: context.auth?.clientId
+    });
+    // The job keeps the container's concurrency slot until it finishes
+    context.holdSlots?.(jobs.settled(job.id));
+
+    return createSuccessResponse(
+      `Started background job ${job.id}\n\n${formatJobSummary(job)}\n\nUse exec_status to check on it, exec_output to read its output and exec_kill to stop it.`,
+      { job: toJobData(job) }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error starting job');
+  }
+}
+
+export const execStart: ToolDefinition = {
+  name: 'exec_start',
+  description: 'Start a long-running command (build, test suite, dev server) in a Docker container in the background and return a job ID.',
+  inputSchema,
+  outputSchema,
+  scope: 'exec',
+  throttled: true,
+  handler
+};
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatJobSummary, toJobData } from '../utils/jobUtils.js';
+import { jobSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  job_id: z.string().optional().describe('Job ID returned by exec_start (omit to list all jobs)'),
+  wait: z.number().optional().default(0).describe('Seconds to wait for the job to finish before reporting')
+});
+
+const outputSchema = z.object({
+  jobs: z.array(jobSchema).describe('The requested job, or all jobs when no job_id was given')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { job_id, wait } = params;
+  const { jobs } = context;
+
+  try {
+    if (!job_id) {
+      const allJobs = jobs.list(context.auth?.clientId);
+      if (allJobs.length === 0) {
+        return createSuccessResponse('No background jobs.', { jobs: [] });
+      }
+
+      let output = `Background Jobs:\n${'='.repeat(80)}\n\n`;
+      for (const job of allJobs) {
+        output += formatJobSummary(job) + '\n';
+        output += '-'.repeat(80) + '\n\n';
+      }
+
+      return createSuccessResponse(output.trim(), { jobs: allJobs.map(toJobData) });
+    }
+
+    const job = await jobs.wait(job_id, wait, context.auth?.clientId);
+
+    return createSuccessResponse(formatJobSummary(job), { jobs: [toJobData(job)] });
+  } catch (error) {
+    return createErrorResponse(error, 'Error getting job status');
+  }
+}
+
+export const execStatus: ToolDefinition = {
+  name: 'exec_status',
+  description: 'Get the status and exit code of a background job started with exec_start, optionally waiting for it to finish. Lists all jobs when no job_id is given.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
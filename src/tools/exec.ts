@@ -1,167 +1,221 @@
 import { z } from 'zod';
-import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { randomUUID } from 'crypto';
+import type { ToolDefinition, ToolContext, ToolExtra } from '../shared/types.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
-import { Readable } from 'stream';
+import type { DockerStreamType } from '../utils/dockerStream.js';
+import type { ContainerRuntime } from '../services/containerRuntime.js';
+import { formatGuardRefusal } from '../services/commandGuard.js';
+import { PROCESS_TAG_VAR, signalTaggedProcesses } from '../utils/processUtils.js';
+import { truncateMiddle, formatBytes } from '../utils/outputUtils.js';
+import { OutputNotifier } from '../utils/notifyUtils.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
 
 const inputSchema = z.object({
-  container_id: z.string().describe('Container ID or name'),
-  command: z.string().describe('Command to execute in the container'),
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  command: z.string().optional().describe('Command line to execute through the container\'s shell (bash, sh or ash, whichever exists)'),
+  argv: z.array(z.string()).optional().describe('Program and arguments to execute without a shell, e.g. ["python3", "-c", "print(1)"]; use instead of command'),
   stdin: z.string().optional().describe('Input to send to the command via stdin'),
-  working_dir: z.string().optional().default('/home/ubuntu/workspace').describe('Working directory for the command'),
-  user: z.string().optional().describe('User to run the command as'),
+  working_dir: z.string().optional().describe('Working directory for the command (default: configured for the container, else the image\'s WORKDIR)'),
+  user: z.string().optional().describe('User to run the command as (default: configured for the container, else the image\'s USER)'),
   env: z.array(z.string()).optional().describe('Environment variables (format: KEY=value)'),
-  timeout: z.number().optional().default(30).describe('Command timeout in seconds')
+  timeout: z.number().optional().default(30).describe('Command timeout in seconds; the command is killed and the output so far returned'),
+  head_bytes: z.number().optional().describe('Bytes to keep from the start of each stream before truncating (default: MCP_OUTPUT_HEAD_BYTES)'),
+  tail_bytes: z.number().optional().describe('Bytes to keep from the end of each stream before truncating (default: MCP_OUTPUT_TAIL_BYTES)'),
+  stream_output: z.boolean().optional().default(true).describe('Send output lines to the client while the command runs (as progress or log notifications)'),
+  fail_on_nonzero_exit: z.boolean().optional().default(false).describe('Mark the result as an error when the command exits with a non-zero code')
 });
 
-// Helper function to execute command with better stdio handling
-async function executeDockerCommand(
-  docker: any,
+const outputSchema = z.object({
+  exitCode: z.number().nullable(),
+  stdout: z.string().describe('Standard output, truncated in the middle when long'),
+  stderr: z.string().describe('Standard error, truncated in the middle when long'),
+  durationMs: z.number(),
+  stdoutTruncated: z.boolean(),
+  stderrTruncated: z.boolean(),
+  stdoutBytes: z.number().describe('Size of the full standard output'),
+  stderrBytes: z.number().describe('Size of the full standard error'),
+  capped: z.boolean().describe('Output exceeded MCP_OUTPUT_MAX_BYTES and the rest was discarded'),
+  timedOut: z.boolean().describe('The command ran into the timeout and was killed'),
+  outputHandle: z.string().optional().describe('Handle for exec_output_page when output was truncated')
+});
+
+// Seconds to wait for the command's processes to go after each signal on timeout
+const KILL_GRACE_PERIOD = 5;
+
+// Resolve with whether `done` completed within `seconds`
+async function settles(done: Promise<unknown>, seconds: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      done.then(() => true, () => true),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), seconds * 1000);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Run the command and collect its output up to maxBytes; beyond that it is drained and discarded.
+// On timeout its processes are terminated through their MCP_JOB_ID tag and the output so far is returned.
+async function executeCommand(
+  runtime: ContainerRuntime,
   containerId: string,
-  command: string,
+  cmd: string[],
+  timeout: number,
   stdin?: string,
   workingDir?: string,
   user?: string,
-  env?: string[]
-): Promise<{ stdout: string; stderr: string; exitCode: number | null }> {
-  try {
-    const container = docker.getContainer(containerId);
+  env?: string[],
+  maxBytes: number = Infinity,
+  onOutput?: (stream: DockerStreamType, text: string) => void
+): Promise<{ stdout: string; stderr: string; exitCode: number | null; capped: boolean; timedOut: boolean }> {
+  const container = runtime.getContainer(containerId);
+
+  // Check if container is running
+  const info = await container.inspect();
+  if (!info.State.Running) {
+    throw new Error(`Container '${containerId}' is not running`);
+  }
 
-    // Check if container is running
-    const info = await container.inspect();
-    if (!info.State.Running) {
-      throw new Error(`Container '${containerId}' is not running`);
+  let stdout = '';
+  let stderr = '';
+  let collected = 0;
+  let capped = false;
+
+  const tag = `exec-${randomUUID()}`;
+  const exec = await container.exec({
+    cmd,
+    workingDir,
+    user,
+    env: [...(env ?? []), `${PROCESS_TAG_VAR}=${tag}`],
+    stdin: Boolean(stdin)
+  }, (streamType, text) => {
+    if (capped) return;
+    const size = Buffer.byteLength(text);
+    if (collected + size > maxBytes) {
+      capped = true;
+      return;
     }
-
-    // Create exec instance
-    const exec = await container.exec({
-      Cmd: ['/bin/bash', '-c', command],
-      AttachStdin: !!stdin,
-      AttachStdout: true,
-      AttachStderr: true,
-      Tty: false,
-      WorkingDir: workingDir,
-      User: user,
-      Env: env
-    });
-
-    // Start execution
-    const stream = await exec.start({
-      Detach: false,
-      Tty: false,
-      stdin: !!stdin
-    });
-
-    let stdout = '';
-    let stderr = '';
-
-    // Handle stdin if provided
-    if (stdin) {
-      const stdinStream = new Readable();
-      stdinStream.push(stdin);
-      stdinStream.push(null); // End the stream
-      stdinStream.pipe(stream);
+    collected += size;
+    if (streamType === 'stdout') {
+      stdout += text;
+    } else {
+      stderr += text;
     }
+    onOutput?.(streamType, text);
+  });
 
-    // Docker multiplexes stdout/stderr in a special format
-    const parseDockerStream = (data: Buffer): { stdout: string; stderr: string } => {
-      let stdout = '';
-      let stderr = '';
-      let offset = 0;
-
-      while (offset < data.length) {
-        if (offset + 8 > data.length) break;
-
-        const streamType = data[offset];
-        const size = data.readUInt32BE(offset + 4);
-
-        if (offset + 8 + size > data.length) break;
-
-        const chunk = data.slice(offset + 8, offset + 8 + size).toString();
-
-        if (streamType === 1) {
-          stdout += chunk;
-        } else if (streamType === 2) {
-          stderr += chunk;
-        }
+  if (exec.stdin) {
+    exec.stdin.end(stdin);
+  }
 
-        offset += 8 + size;
-      }
+  if (await settles(exec.exited, timeout)) {
+    return { stdout, stderr, exitCode: await exec.exited, capped, timedOut: false };
+  }
 
-      return { stdout, stderr };
-    };
+  // Terminate, then kill; a stream that still does not end is abandoned. The output
+  // collected so far is returned even if the processes could not be signalled.
+  let exited = false;
+  try {
+    await signalTaggedProcesses(runtime, containerId, tag, 'TERM');
+    exited = await settles(exec.exited, KILL_GRACE_PERIOD);
+    if (!exited) {
+      await signalTaggedProcesses(runtime, containerId, tag, 'KILL');
+      exited = await settles(exec.exited, KILL_GRACE_PERIOD);
+    }
+  } catch (error) {
+    console.error(`Failed to stop timed out command in ${containerId}:`, error instanceof Error ? error.message : error);
+  }
+  const exitCode = exited ? await exec.exited.catch(() => null) : null;
+  return { stdout, stderr, exitCode, capped, timedOut: true };
+}
 
-    // Collect all data
-    const chunks: Buffer[] = [];
-    stream.on('data', (chunk: Buffer) => {
-      chunks.push(chunk);
-    });
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext, extra?: ToolExtra): Promise<CallToolResult> {
+  const { container_id, stdin, env, timeout, head_bytes, tail_bytes, stream_output, fail_on_nonzero_exit } = params;
+  const { runtime, policy, guard, outputs, settings } = context;
 
-    // Wait for completion
-    await new Promise((resolve, reject) => {
-      stream.on('end', resolve);
-      stream.on('error', reject);
+  try {
+    const info = await policy.assertAccess(container_id);
+    const { cmd, commandLine: command, workingDir, user } = await context.exec.resolve(info, {
+      command: params.command,
+      argv: params.argv,
+      workingDir: params.working_dir,
+      user: params.user
     });
 
-    // Parse the collected data
-    const allData = Buffer.concat(chunks);
-    const parsed = parseDockerStream(allData);
-    stdout = parsed.stdout;
-    stderr = parsed.stderr;
-
-    // Get exit code
-    const execInfo = await exec.inspect();
-
-    return {
-      stdout,
-      stderr,
-      exitCode: execInfo.ExitCode
-    };
+    const decision = await guard.authorize(command, [container_id, info.Name.replace(/^\//, '')], extra);
+    if (decision.action !== 'allow') {
+      return createErrorResponse(formatGuardRefusal(command, decision));
+    }
 
-  } catch (error) {
-    throw error;
-  }
-}
+    const startedAt = Date.now();
+    const notifier = stream_output && extra ? new OutputNotifier(extra, settings.streamInterval, context.redactor) : undefined;
 
-async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
-  const { container_id, command, stdin, working_dir, user, env, timeout } = params;
-  const { docker } = context;
+    const result = await executeCommand(
+      runtime, container_id, cmd, timeout, stdin, workingDir, user, env,
+      settings.outputMaxBytes,
+      notifier ? (streamType, text) => notifier.write(streamType, text) : undefined
+    ).finally(() => notifier?.close());
 
-  try {
-    const result = await Promise.race([
-      executeDockerCommand(docker, container_id, command, stdin, working_dir, user, env),
-      new Promise<never>((_, reject) =>
-        setTimeout(() => reject(new Error('Command timeout')), timeout * 1000)
-      )
-    ]);
+    const headBytes = head_bytes ?? settings.outputHeadBytes;
+    const tailBytes = tail_bytes ?? settings.outputTailBytes;
+    const stdout = truncateMiddle(result.stdout, headBytes, tailBytes);
+    const stderr = truncateMiddle(result.stderr, headBytes, tailBytes);
 
     let output = '';
     if (result.stdout) {
-      output += `STDOUT:\n${result.stdout}\n`;
+      output += `STDOUT:\n${stdout.text}\n`;
     }
     if (result.stderr) {
-      output += `STDERR:\n${result.stderr}\n`;
+      output += `STDERR:\n${stderr.text}\n`;
+    }
+    if (result.capped) {
+      output += `[Output exceeded ${formatBytes(settings.outputMaxBytes)}; the rest was discarded]\n`;
+    }
+    let outputHandle: string | undefined;
+    if (stdout.omittedBytes > 0 || stderr.omittedBytes > 0) {
+      const stored = outputs.put({
+        containerId: container_id,
+        command,
+        stdout: result.stdout,
+        stderr: result.stderr,
+        capped: result.capped,
+        owner: context.auth?.clientId
+      });
+      outputHandle = stored.handle;
+      output += `[Full output (${formatBytes(Buffer.byteLength(result.stdout))} stdout, ${formatBytes(Buffer.byteLength(result.stderr))} stderr) stored as handle ${stored.handle}; use exec_output_page to read more]\n`;
+    }
+    if (result.timedOut) {
+      output += `Command timed out after ${timeout}s and was killed\n`;
     }
     output += `Exit Code: ${result.exitCode}`;
 
-    return {
-      content: [{
-        type: 'text',
-        text: output
-      }]
-    };
+    return createSuccessResponse(output, {
+      exitCode: result.exitCode,
+      stdout: stdout.text,
+      stderr: stderr.text,
+      durationMs: Date.now() - startedAt,
+      stdoutTruncated: stdout.omittedBytes > 0,
+      stderrTruncated: stderr.omittedBytes > 0,
+      stdoutBytes: Buffer.byteLength(result.stdout),
+      stderrBytes: Buffer.byteLength(result.stderr),
+      capped: result.capped,
+      timedOut: result.timedOut,
+      outputHandle
+    }, (fail_on_nonzero_exit && result.exitCode !== 0) || result.timedOut);
   } catch (error) {
-    return {
-      content: [{
-        type: 'text',
-        text: `Execution error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }]
-    };
+    return createErrorResponse(error, 'Execution error');
   }
 }
 
 export const execCommand: ToolDefinition = {
   name: 'exec',
-  description: 'Execute a command in a Docker container',
+  description: 'Execute a command in a Docker container, either as a command line through the container\'s shell or as an argv array without one',
   inputSchema,
+  outputSchema,
+  scope: 'exec',
+  throttled: true,
   handler
 };
\ No newline at end of file
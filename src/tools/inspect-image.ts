@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatBytes } from '../utils/outputUtils.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image name, tag or ID, e.g. "myapp:dev"')
+});
+
+const outputSchema = z.object({
+  image: z.object({
+    id: z.string(),
+    tags: z.array(z.string()),
+    digests: z.array(z.string()),
+    created: z.string(),
+    architecture: z.string(),
+    os: z.string(),
+    size: z.number(),
+    user: z.string(),
+    workingDir: z.string(),
+    entrypoint: z.array(z.string()),
+    cmd: z.array(z.string()),
+    env: z.array(z.string()),
+    exposedPorts: z.array(z.string()),
+    labels: z.record(z.string()),
+    layers: z.array(z.string()).describe('Layer digests, base layer first'),
+    history: z.array(z.object({
+      created: z.string(),
+      createdBy: z.string().describe('Instruction that created the step'),
+      size: z.number(),
+      comment: z.string().optional(),
+      emptyLayer: z.boolean().describe('Step only changed metadata, e.g. ENV or CMD')
+    })).describe('Build steps, oldest first')
+  })
+});
+
+interface HistoryEntry {
+  Created: number;
+  CreatedBy: string;
+  Size: number;
+  Comment?: string;
+}
+
+function asArray(value: string | string[] | null | undefined): string[] {
+  if (!value) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { image } = params;
+  const { docker } = context;
+
+  try {
+    const target = docker.getImage(image);
+    const info = await target.inspect();
+    const history = ((await target.history()) as HistoryEntry[]).reverse();
+
+    const data: z.infer<typeof outputSchema>['image'] = {
+      id: info.Id,
+      tags: info.RepoTags ?? [],
+      digests: info.RepoDigests ?? [],
+      created: info.Created,
+      architecture: info.Architecture,
+      os: info.Os,
+      size: info.Size,
+      user: info.Config?.User ?? '',
+      workingDir: info.Config?.WorkingDir ?? '',
+      entrypoint: asArray(info.Config?.Entrypoint),
+      cmd: asArray(info.Config?.Cmd),
+      env: info.Config?.Env ?? [],
+      exposedPorts: Object.keys(info.Config?.ExposedPorts ?? {}),
+      labels: info.Config?.Labels ?? {},
+      layers: info.RootFS?.Layers ?? [],
+      history: history.map(entry => ({
+        created: new Date(entry.Created * 1000).toISOString(),
+        // The classic builder prefixes metadata steps with "#(nop)"
+        createdBy: entry.CreatedBy.replace(/^\/bin\/sh -c #\(nop\)\s*/, '').trim(),
+        size: entry.Size,
+        comment: entry.Comment || undefined,
+        emptyLayer: entry.Size === 0
+      }))
+    };
+
+    let output = `Image: ${data.tags[0] ?? image}\n${'='.repeat(80)}\n\n`;
+    output += `ID:           ${data.id}\n`;
+    if (data.tags.length > 1) output += `Tags:         ${data.tags.join(', ')}\n`;
+    if (data.digests.length > 0) output += `Digests:      ${data.digests.join(', ')}\n`;
+    output += `Created:      ${data.created}\n`;
+    output += `Platform:     ${data.os}/${data.architecture}\n`;
+    output += `Size:         ${formatBytes(data.size)} in ${data.layers.length} layers\n`;
+    output += `User:         ${data.user || 'root'}\n`;
+    output += `Working Dir:  ${data.workingDir || '/'}\n`;
+    output += `Entrypoint:   ${data.entrypoint.length > 0 ? JSON.stringify(data.entrypoint) : 'none'}\n`;
+    output += `Cmd:          ${data.cmd.length > 0 ? JSON.stringify(data.cmd) : 'none'}\n`;
+    if (data.exposedPorts.length > 0) output += `Ports:        ${data.exposedPorts.join(', ')}\n`;
+
+    if (data.env.length > 0) {
+      output += `\nEnvironment:\n${data.env.map(line => `  ${line}`).join('\n')}\n`;
+    }
+    const labels = Object.entries(data.labels);
+    if (labels.length > 0) {
+      output += `\nLabels:\n${labels.map(([key, value]) => `  ${key}=${value}`).join('\n')}\n`;
+    }
+
+    output += '\nHistory:\n';
+    for (const entry of data.history) {
+      const size = entry.emptyLayer ? '0 B' : formatBytes(entry.size);
+      output += `  ${size.padStart(10)}  ${entry.createdBy}\n`;
+    }
+
+    return createSuccessResponse(output.trim(), { image: data });
+  } catch (error) {
+    return createErrorResponse(error, 'Error inspecting image');
+  }
+}
+
+export const inspectImage: ToolDefinition = {
+  name: 'inspect_image',
+  description: 'Show the details of a Docker image: tags, size, layers, user, working directory, entrypoint, command, environment, labels and the build history with the instruction and size of each step.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { allowedContainers } from '../services/authenticator.js';
+import { matchesGlob } from '../utils/matchUtils.js';
+
+const inputSchema = z.object({});
+
+const outputSchema = z.object({
+  limits: z.object({
+    maxConcurrent: z.number(),
+    maxPerContainer: z.number(),
+    maxQueue: z.number(),
+    maxWait: z.number(),
+    rate: z.number(),
+    burst: z.number()
+  }).describe('Configured limits; 0 means unlimited'),
+  active: z.number().describe('Throttled calls running now'),
+  queued: z.number().describe('Calls waiting for a free slot'),
+  containers: z.array(z.object({
+    container: z.string().describe('Host and container, e.g. local/dev-1'),
+    active: z.number(),
+    queued: z.number()
+  })),
+  callers: z.array(z.object({
+    caller: z.string(),
+    tokens: z.number().describe('Calls the caller can make right now before being rate limited')
+  }))
+});
+
+function formatLimit(value: number): string {
+  return value > 0 ? String(value) : 'unlimited';
+}
+
+async function handler(_params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  try {
+    const state = context.limiter.state();
+    const { limits } = state;
+    // Callers with a container allowlist only see their own budget and their containers
+    const allowed = allowedContainers(context.auth);
+    if (allowed) {
+      state.containers = state.containers.filter(entry => {
+        const name = entry.container.slice(entry.container.indexOf('/') + 1);
+        return allowed.some(pattern => matchesGlob(name, pattern));
+      });
+      state.callers = state.callers.filter(entry => entry.caller === context.auth!.clientId);
+    }
+
+    let output = 'Limiter Status:\n';
+    output += `Running:    ${state.active} of ${formatLimit(limits.maxConcurrent)} (per container: ${formatLimit(limits.maxPerContainer)})\n`;
+    output += `Queued:     ${state.queued} of ${limits.maxQueue}, waiting up to ${limits.maxWait}s\n`;
+    output += `Rate limit: ${limits.rate > 0 ? `${limits.rate} calls/min per caller, burst ${limits.burst}` : 'off'}\n`;
+
+    if (state.containers.length > 0) {
+      output += '\nContainers:\n';
+      for (const entry of state.containers) {
+        output += `  ${entry.container}: ${entry.active} running, ${entry.queued} queued\n`;
+      }
+    }
+    if (limits.rate > 0 && state.callers.length > 0) {
+      output += '\nCallers:\n';
+      for (const entry of state.callers) {
+        output += `  ${entry.caller}: ${entry.tokens} calls available\n`;
+      }
+    }
+
+    return createSuccessResponse(output.trim(), { ...state });
+  } catch (error) {
+    return createErrorResponse(error, 'Error reading limiter status');
+  }
+}
+
+export const limiterStatus: ToolDefinition = {
+  name: 'limiter_status',
+  description: 'Show the concurrency and rate limits, running and queued calls per container and the remaining rate limit budget per caller.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
@@ -0,0 +1,150 @@
+import { z } from 'zod';
+import type Docker from 'dockerode';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { COMPOSE_PROJECT_LABEL } from '../services/containerPolicy.js';
+import {
+  COMPOSE_SERVICE_LABEL,
+  COMPOSE_NUMBER_LABEL,
+  COMPOSE_WORKING_DIR_LABEL,
+  COMPOSE_CONFIG_FILES_LABEL,
+  healthFromStatus
+} from '../utils/composeUtils.js';
+
+const inputSchema = z.object({
+  project: z.string().optional().describe('Only show this compose project')
+});
+
+const healthSchema = z.enum(['healthy', 'unhealthy', 'starting', 'none']);
+
+const outputSchema = z.object({
+  projects: z.array(z.object({
+    name: z.string(),
+    workingDir: z.string().optional().describe('Directory compose was run in'),
+    configFiles: z.array(z.string()).describe('Compose files the project was created from'),
+    services: z.array(z.object({
+      name: z.string(),
+      target: z.string().describe('Target to pass as container_id, e.g. shop/web'),
+      running: z.number(),
+      total: z.number(),
+      health: healthSchema.describe('Worst health of the running replicas; none without a healthcheck'),
+      containers: z.array(z.object({
+        id: z.string(),
+        name: z.string(),
+        index: z.number().describe('Replica number, usable as project/service#index'),
+        state: z.string(),
+        status: z.string(),
+        health: healthSchema
+      }))
+    }))
+  }))
+});
+
+type Project = z.infer<typeof outputSchema>['projects'][number];
+type Service = Project['services'][number];
+
+// Order in which a service's health is reported when replicas differ
+const HEALTH_RANK = ['unhealthy', 'starting', 'healthy', 'none'] as const;
+
+function serviceHealth(service: Service): Service['health'] {
+  const running = service.containers.filter(container => container.state === 'running');
+  return HEALTH_RANK.find(health => running.some(container => container.health === health)) ?? 'none';
+}
+
+function groupProjects(containers: Docker.ContainerInfo[]): Project[] {
+  const projects = new Map<string, Project>();
+
+  for (const container of containers) {
+    const labels = container.Labels ?? {};
+    const projectName = labels[COMPOSE_PROJECT_LABEL];
+    const serviceName = labels[COMPOSE_SERVICE_LABEL];
+    if (!projectName || !serviceName) continue;
+
+    let project = projects.get(projectName);
+    if (!project) {
+      project = {
+        name: projectName,
+        workingDir: labels[COMPOSE_WORKING_DIR_LABEL] || undefined,
+        configFiles: labels[COMPOSE_CONFIG_FILES_LABEL]?.split(',').filter(Boolean) ?? [],
+        services: []
+      };
+      projects.set(projectName, project);
+    }
+
+    let service = project.services.find(entry => entry.name === serviceName);
+    if (!service) {
+      service = { name: serviceName, target: `${projectName}/${serviceName}`, running: 0, total: 0, health: 'none', containers: [] };
+      project.services.push(service);
+    }
+
+    service.total++;
+    if (container.State === 'running') service.running++;
+    service.containers.push({
+      id: container.Id,
+      name: (container.Names?.[0] ?? container.Id.slice(0, 12)).replace(/^\//, ''),
+      index: parseInt(labels[COMPOSE_NUMBER_LABEL] ?? '', 10) || 1,
+      state: container.State,
+      status: container.Status,
+      health: healthFromStatus(container.Status)
+    });
+  }
+
+  for (const project of projects.values()) {
+    project.services.sort((a, b) => a.name.localeCompare(b.name));
+    for (const service of project.services) {
+      service.containers.sort((a, b) => a.index - b.index);
+      service.health = serviceHealth(service);
+    }
+  }
+  return [...projects.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { project } = params;
+
+  try {
+    // Containers outside the access policy are hidden
+    const containers = context.policy.filter(await context.runtime.listContainers({
+      all: true,
+      filters: { label: [project ? `${COMPOSE_PROJECT_LABEL}=${project}` : COMPOSE_PROJECT_LABEL] }
+    }));
+    const projects = groupProjects(containers);
+
+    if (projects.length === 0) {
+      return createSuccessResponse(
+        project ? `No accessible containers of compose project '${project}' found.` : 'No compose projects found.',
+        { projects: [] }
+      );
+    }
+
+    let output = `Compose Projects on ${context.host}:\n${'='.repeat(80)}\n\n`;
+    for (const entry of projects) {
+      output += `Project: ${entry.name}\n`;
+      if (entry.workingDir) output += `Dir:     ${entry.workingDir}\n`;
+      if (entry.configFiles.length > 0) output += `Files:   ${entry.configFiles.join(', ')}\n`;
+      output += 'Services:\n';
+      for (const service of entry.services) {
+        const health = service.health === 'none' ? '' : `, ${service.health}`;
+        output += `  ${service.target}: ${service.running}/${service.total} running${health}\n`;
+        for (const container of service.containers) {
+          output += `    #${container.index} ${container.name} (${container.id.substring(0, 12)}): ${container.status}\n`;
+        }
+      }
+      output += '-'.repeat(80) + '\n\n';
+    }
+
+    return createSuccessResponse(output.trim(), { projects });
+  } catch (error) {
+    return createErrorResponse(error, 'Error listing compose projects');
+  }
+}
+
+export const listComposeProjects: ToolDefinition = {
+  name: 'list_compose_projects',
+  description: 'List Docker Compose projects with their services, running/total replica counts and health. Any tool taking a container accepts a service as project/service, or project/service#index for a specific replica; these keep working when the stack is recreated and container names change.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
@@ -1,71 +1,118 @@
 import { z } from 'zod';
+import type Docker from 'dockerode';
 import type { ToolDefinition, ToolContext } from '../shared/types.js';
 import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { selectHost } from '../shared/context.js';
+import { formatServiceTarget } from '../utils/composeUtils.js';
 
 const inputSchema = z.object({
-  all: z.boolean().optional().default(false).describe('Show all containers (default shows just running)')
+  all: z.boolean().optional().default(false).describe('Show all containers (default shows just running)'),
+  all_hosts: z.boolean().optional().default(false).describe('List the containers of every configured Docker host instead of only the selected one')
+});
+
+const outputSchema = z.object({
+  containers: z.array(z.object({
+    host: z.string(),
+    id: z.string(),
+    names: z.array(z.string()),
+    image: z.string(),
+    state: z.string(),
+    status: z.string(),
+    ports: z.array(z.string()),
+    service: z.string().optional().describe('Compose service as project/service#index, usable as container_id')
+  })),
+  errors: z.array(z.object({
+    host: z.string(),
+    error: z.string()
+  })).describe('Hosts that could not be listed')
 });
 
 async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
-  const { all } = params;
-  const { docker } = context;
+  const { all, all_hosts } = params;
+  const hosts = (all_hosts ? context.hosts.names : [context.host]).map(name => selectHost(context, name));
 
   try {
-    const containers = await docker.listContainers({ all });
+    const data: z.infer<typeof outputSchema>['containers'] = [];
+    const errors: z.infer<typeof outputSchema>['errors'] = [];
+    let output = '';
 
-    if (containers.length === 0) {
-      return {
-        content: [{
-          type: 'text',
-          text: all ? 'No containers found.' : 'No running containers found. Use all=true to see all containers.'
-        }]
-      };
-    }
+    for (const host of hosts) {
+      let containers: Docker.ContainerInfo[];
+      try {
+        // Containers outside the access policy are hidden
+        containers = host.policy.filter(await host.runtime.listContainers({ all }));
+      } catch (error) {
+        if (!all_hosts) throw error;
+        // One unreachable host does not hide the others
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push({ host: host.host, error: message });
+        output += `Host:    ${host.host}\nError:   ${message}\n${'-'.repeat(80)}\n\n`;
+        continue;
+      }
 
-    // Format container list
-    let output = `${all ? 'All' : 'Running'} Containers:\n${'='.repeat(80)}\n\n`;
+      for (const container of containers) {
+        const name = container.Names?.map(n => n.replace(/^\//, '')).join(', ') || 'unknown';
+        const image = container.Image;
+        const status = container.Status;
+        const state = container.State;
+        const portList = container.Ports?.map(p => {
+          if (p.PublicPort) {
+            return `${p.IP || '0.0.0.0'}:${p.PublicPort}->${p.PrivatePort}/${p.Type}`;
+          }
+          return `${p.PrivatePort}/${p.Type}`;
+        }) ?? [];
+        const ports = portList.join(', ') || 'none';
+        const service = formatServiceTarget(container.Labels);
 
-    for (const container of containers) {
-      const name = container.Names?.map(n => n.replace(/^\//, '')).join(', ') || 'unknown';
-      const image = container.Image;
-      const status = container.Status;
-      const state = container.State;
-      const ports = container.Ports?.map(p => {
-        if (p.PublicPort) {
-          return `${p.IP || '0.0.0.0'}:${p.PublicPort}->${p.PrivatePort}/${p.Type}`;
+        if (all_hosts) {
+          output += `Host:    ${host.host}\n`;
         }
-        return `${p.PrivatePort}/${p.Type}`;
-      }).join(', ') || 'none';
+        output += `Name:    ${name}\n`;
+        output += `ID:      ${container.Id.substring(0, 12)}\n`;
+        output += `Image:   ${image}\n`;
+        if (service) {
+          output += `Service: ${service}\n`;
+        }
+        output += `State:   ${state}\n`;
+        output += `Status:  ${status}\n`;
+        output += `Ports:   ${ports}\n`;
+        output += '-'.repeat(80) + '\n\n';
+
+        data.push({
+          host: host.host,
+          id: container.Id,
+          names: container.Names?.map(n => n.replace(/^\//, '')) ?? [],
+          image,
+          state,
+          status,
+          ports: portList,
+          service
+        });
+      }
+    }
 
-      output += `Name:    ${name}\n`;
-      output += `ID:      ${container.Id.substring(0, 12)}\n`;
-      output += `Image:   ${image}\n`;
-      output += `State:   ${state}\n`;
-      output += `Status:  ${status}\n`;
-      output += `Ports:   ${ports}\n`;
-      output += '-'.repeat(80) + '\n\n';
+    if (data.length === 0 && errors.length === 0) {
+      return createSuccessResponse(
+        all ? 'No containers found.' : 'No running containers found. Use all=true to see all containers.',
+        { containers: [], errors: [] }
+      );
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: output.trim()
-      }]
-    };
+    const scope = all_hosts ? ` on ${hosts.length} host${hosts.length === 1 ? '' : 's'}` : '';
+    output = `${all ? 'All' : 'Running'} Containers${scope}:\n${'='.repeat(80)}\n\n${output}`;
+    return createSuccessResponse(output.trim(), { containers: data, errors }, errors.length === hosts.length);
 
   } catch (error) {
-    return {
-      content: [{
-        type: 'text',
-        text: `Error listing containers: ${error instanceof Error ? error.message : 'Unknown error'}`
-      }]
-    };
+    return createErrorResponse(error, 'Error listing containers');
   }
 }
 
 export const listContainers: ToolDefinition = {
   name: 'list_containers',
-  description: 'List Docker containers. By default shows only running containers, use all=true to show all containers including stopped ones.',
+  description: 'List Docker containers. By default shows only running containers, use all=true to show all containers including stopped ones and all_hosts=true to list every configured Docker host.',
   inputSchema,
+  outputSchema,
+  scope: 'read',
   handler
 };
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { listContainerDirectory, formatMode, toFileStatData } from '../utils/containerFiles.js';
+import { fileStatSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  path: z.string().describe('Absolute path of the directory in the container'),
+  depth: z.number().optional().default(1).describe('How many levels to list (1 = direct children only)'),
+  limit: z.number().optional().default(500).describe('Maximum number of entries to return')
+});
+
+const outputSchema = z.object({
+  path: z.string(),
+  entries: z.array(fileStatSchema.extend({
+    depth: z.number()
+  })).describe('Entries with paths relative to the listed directory'),
+  truncated: z.boolean()
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, path, depth, limit } = params;
+  const { policy } = context;
+
+  try {
+    const container = await policy.getContainer(container_id);
+    const { entries, truncated } = await listContainerDirectory(container, path, depth, limit);
+
+    if (entries.length === 0) {
+      return createSuccessResponse(`Directory ${path} is empty.`, { path, entries: [], truncated: false });
+    }
+
+    let output = `Directory: ${path}\n${'='.repeat(80)}\n\n`;
+    for (const entry of entries) {
+      const size = String(entry.size).padStart(10);
+      const owner = `${entry.uid}:${entry.gid}`.padEnd(11);
+      const modified = entry.mtime ? entry.mtime.toISOString().replace('T', ' ').slice(0, 19) : ''.padEnd(19);
+      const name = entry.type === 'directory' ? `${entry.path}/` : entry.path;
+      const link = entry.linkTarget ? ` -> ${entry.linkTarget}` : '';
+      output += `${formatMode(entry)} ${owner} ${size} ${modified} ${name}${link}\n`;
+    }
+    if (truncated) {
+      output += `\n[Listing stopped after ${limit} entries]`;
+    }
+
+    return createSuccessResponse(output.trim(), {
+      path,
+      entries: entries.map(entry => ({ ...toFileStatData(entry), depth: entry.depth })),
+      truncated
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error listing directory');
+  }
+}
+
+export const listDirectory: ToolDefinition = {
+  name: 'list_directory',
+  description: 'List a directory in a Docker container with mode, owner, size and modification time, using the Docker archive API (no shell needed).',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatBytes } from '../utils/outputUtils.js';
+
+const inputSchema = z.object({
+  reference: z.string().optional().describe('Only images whose name matches, e.g. "myapp" or "myapp:*"'),
+  dangling: z.boolean().optional().describe('Only untagged (true) or only tagged (false) images'),
+  all: z.boolean().optional().default(false).describe('Include intermediate images')
+});
+
+const outputSchema = z.object({
+  images: z.array(z.object({
+    id: z.string(),
+    tags: z.array(z.string()),
+    digests: z.array(z.string()),
+    created: z.string(),
+    size: z.number().describe('Size in bytes, including shared layers'),
+    containers: z.number().optional().describe('Containers using the image, when the daemon reports it')
+  }))
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { reference, dangling, all } = params;
+  const { docker } = context;
+
+  try {
+    const filters: Record<string, string[]> = {};
+    if (reference) filters.reference = [reference];
+    if (dangling !== undefined) filters.dangling = [String(dangling)];
+
+    const images = (await docker.listImages({ all, filters })).sort((a, b) => b.Created - a.Created);
+    const data = images.map(image => ({
+      id: image.Id,
+      tags: (image.RepoTags ?? []).filter(tag => tag !== '<none>:<none>'),
+      digests: (image.RepoDigests ?? []).filter(digest => digest !== '<none>@<none>'),
+      created: new Date(image.Created * 1000).toISOString(),
+      size: image.Size,
+      containers: image.Containers >= 0 ? image.Containers : undefined
+    }));
+
+    if (data.length === 0) {
+      return createSuccessResponse('No images found.', { images: [] });
+    }
+
+    let output = `Images on ${context.host}:\n${'='.repeat(80)}\n\n`;
+    for (const image of data) {
+      output += `Tags:    ${image.tags.join(', ') || '<none>'}\n`;
+      output += `ID:      ${image.id.replace(/^sha256:/, '').substring(0, 12)}\n`;
+      output += `Created: ${image.created}\n`;
+      output += `Size:    ${formatBytes(image.size)}\n`;
+      output += '-'.repeat(80) + '\n\n';
+    }
+
+    return createSuccessResponse(output.trim(), { images: data });
+  } catch (error) {
+    return createErrorResponse(error, 'Error listing images');
+  }
+}
+
+export const listImages: ToolDefinition = {
+  name: 'list_images',
+  description: 'List Docker images with their tags, creation time and size, newest first. Filter by reference (e.g. "myapp:*") or dangling state.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
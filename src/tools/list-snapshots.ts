@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatBytes } from '../utils/outputUtils.js';
+import {
+  SNAPSHOT_LABEL,
+  SNAPSHOT_CONTAINER_LABEL,
+  snapshotPolicyTarget,
+  toSnapshotData
+} from '../utils/snapshotUtils.js';
+
+const inputSchema = z.object({
+  container: z.string().optional().describe('Only snapshots of the container with this name')
+});
+
+const outputSchema = z.object({
+  snapshots: z.array(z.object({
+    image: z.string(),
+    id: z.string(),
+    container: z.string(),
+    containerId: z.string(),
+    note: z.string().optional(),
+    created: z.string(),
+    size: z.number()
+  }))
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container } = params;
+  const { docker, policy } = context;
+
+  try {
+    const labels = [`${SNAPSHOT_LABEL}=true`];
+    if (container) labels.push(`${SNAPSHOT_CONTAINER_LABEL}=${container}`);
+
+    // Snapshots of containers outside the access policy are hidden
+    const images = (await docker.listImages({ filters: { label: labels } }))
+      .filter(image => policy.evaluate(snapshotPolicyTarget(image.Labels ?? {})).allowed);
+    const snapshots = images.map(toSnapshotData).sort((a, b) => b.created.localeCompare(a.created));
+
+    if (snapshots.length === 0) {
+      return createSuccessResponse(
+        container ? `No snapshots of ${container} found.` : 'No snapshots found.',
+        { snapshots: [] }
+      );
+    }
+
+    let output = `Snapshots on ${context.host}:\n${'='.repeat(80)}\n\n`;
+    for (const snapshot of snapshots) {
+      output += `Image:     ${snapshot.image}\n`;
+      output += `Container: ${snapshot.container}\n`;
+      output += `Created:   ${snapshot.created}\n`;
+      output += `Size:      ${formatBytes(snapshot.size)}\n`;
+      if (snapshot.note) output += `Note:      ${snapshot.note}\n`;
+      output += '-'.repeat(80) + '\n\n';
+    }
+
+    return createSuccessResponse(output.trim(), { snapshots });
+  } catch (error) {
+    return createErrorResponse(error, 'Error listing snapshots');
+  }
+}
+
+export const listSnapshots: ToolDefinition = {
+  name: 'list_snapshots',
+  description: 'List the container snapshots created with snapshot_container, newest first, with the container they belong to and their notes.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { assertPullAllowed } from '../utils/buildUtils.js';
+
+const inputSchema = z.object({
+  image: z.string().describe('Image to pull including its registry, e.g. "localhost:5000/myapp:dev"'),
+  timeout: z.number().optional().default(300).describe('Pull timeout in seconds')
+});
+
+const outputSchema = z.object({
+  image: z.string(),
+  registry: z.string(),
+  id: z.string(),
+  digests: z.array(z.string())
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { image, timeout } = params;
+  const { docker, settings } = context;
+
+  try {
+    const registry = assertPullAllowed(image, settings.pullRegistries);
+
+    const abort = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      docker.pull(image, { abortSignal: abort.signal }).then(stream => new Promise<void>((resolve, reject) => {
+        docker.modem.followProgress(stream, (error: Error | null) => error ? reject(error) : resolve());
+      })),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Pull timeout after ${timeout}s`)), timeout * 1000);
+      })
+    ]).finally(() => {
+      clearTimeout(timer);
+      abort.abort();
+    });
+
+    const info = await docker.getImage(image).inspect();
+    return createSuccessResponse(
+      `Pulled ${image}\nID:      ${info.Id}\nDigests: ${(info.RepoDigests ?? []).join(', ') || 'none'}`,
+      { image, registry, id: info.Id, digests: info.RepoDigests ?? [] }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error pulling image');
+  }
+}
+
+export const pullImage: ToolDefinition = {
+  name: 'pull_image',
+  description: 'Pull a Docker image from one of the registries allowed by MCP_PULL_REGISTRIES, e.g. a local registry that CI pushes to.',
+  inputSchema,
+  outputSchema,
+  scope: 'images:write',
+  requiresEngine: true,
+  throttled: true,
+  handler
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { readContainerFile, formatMode, toFileStatData } from '../utils/containerFiles.js';
+import { fileStatSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  path: z.string().describe('Absolute path of the file in the container'),
+  offset: z.number().optional().default(0).describe('Byte offset to start reading at'),
+  length: z.number().optional().describe('Maximum number of bytes to read (default and maximum: MCP_MAX_FILE_SIZE)'),
+  encoding: z.enum(['auto', 'utf8', 'base64']).optional().default('auto').describe('How to return the content. auto uses base64 for binary files')
+});
+
+const outputSchema = z.object({
+  file: fileStatSchema,
+  offset: z.number(),
+  length: z.number().describe('Bytes returned'),
+  remainingBytes: z.number().describe('Bytes after the returned range; read again with offset = offset + length'),
+  encoding: z.enum(['utf8', 'base64']),
+  content: z.string()
+});
+
+function isText(data: Buffer): boolean {
+  if (data.includes(0)) return false;
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the range
+    new TextDecoder('utf-8', { fatal: true }).decode(data, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, path, offset, length, encoding } = params;
+  const { policy, settings } = context;
+
+  try {
+    const container = await policy.getContainer(container_id);
+    const { stat, data } = await readContainerFile(container, path, {
+      offset,
+      length: Math.min(length ?? settings.maxFileSize, settings.maxFileSize)
+    });
+
+    const useBase64 = encoding === 'base64' || (encoding === 'auto' && !isText(data));
+    const end = offset + data.length;
+
+    let output = `File:     ${path}\n`;
+    output += `Size:     ${stat.size} bytes\n`;
+    output += `Mode:     ${formatMode(stat)} (${stat.mode.toString(8).padStart(4, '0')})\n`;
+    output += `Owner:    ${stat.uid}:${stat.gid}\n`;
+    if (stat.mtime) output += `Modified: ${stat.mtime.toISOString()}\n`;
+    output += `Range:    ${offset}-${end} (${data.length} bytes)\n`;
+    if (end < stat.size) {
+      output += `[${stat.size - end} more bytes, read again with offset=${end}]\n`;
+    }
+    output += `Encoding: ${useBase64 ? 'base64' : 'utf8'}\n\n`;
+    output += useBase64 ? data.toString('base64') : data.toString('utf8');
+
+    return createSuccessResponse(output, {
+      file: toFileStatData(stat),
+      offset,
+      length: data.length,
+      remainingBytes: Math.max(0, stat.size - end),
+      encoding: useBase64 ? 'base64' : 'utf8',
+      content: useBase64 ? data.toString('base64') : data.toString('utf8')
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error reading file');
+  }
+}
+
+export const readFile: ToolDefinition = {
+  name: 'read_file',
+  description: 'Read a file from a Docker container using the Docker archive API (no shell needed). Supports byte ranges; binary content is returned as base64.',
+  inputSchema,
+  outputSchema,
+  scope: 'read',
+  handler
+};
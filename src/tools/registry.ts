@@ -1,9 +1,55 @@
-import type { ToolDefinition } from '../shared/types.js';
+import { z } from 'zod';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import type { ToolContext, ToolDefinition, ToolExtra } from '../shared/types.js';
+import { selectHost } from '../shared/context.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createErrorResponse } from '../utils/responseUtils.js';
+import { redactArguments, type AuditTransport } from '../services/auditLog.js';
+import type { Redactor } from '../services/redactor.js';
+import { allowedContainers, hasScope } from '../services/authenticator.js';
+import { LimitExceededError } from '../services/callLimiter.js';
+import { resolveContainerTarget } from '../utils/composeUtils.js';
 
 // Docker container management tools
 import { execCommand } from './exec.js';
 import { listContainers } from './list-containers.js';
 import { getContainerInfo } from './get-container-info.js';
+import { execStart } from './exec-start.js';
+import { execStatus } from './exec-status.js';
+import { execOutput } from './exec-output.js';
+import { execKill } from './exec-kill.js';
+import { execOutputPage } from './exec-output-page.js';
+import { shellOpen } from './shell-open.js';
+import { shellRun } from './shell-run.js';
+import { shellClose } from './shell-close.js';
+import { readFile } from './read-file.js';
+import { writeFile } from './write-file.js';
+import { listDirectory } from './list-directory.js';
+import { copyInto } from './copy-into.js';
+import { copyOutOf } from './copy-out-of.js';
+import { editFile } from './edit-file.js';
+import { startContainer } from './start-container.js';
+import { stopContainer } from './stop-container.js';
+import { restartContainer } from './restart-container.js';
+import { pauseContainer } from './pause-container.js';
+import { unpauseContainer } from './unpause-container.js';
+import { removeContainer } from './remove-container.js';
+import { createSandbox } from './create-sandbox.js';
+import { containerLogs } from './container-logs.js';
+import { containerStats } from './container-stats.js';
+import { containerTop } from './container-top.js';
+import { auditQuery } from './audit-query.js';
+import { limiterStatus } from './limiter-status.js';
+import { listComposeProjects } from './list-compose-projects.js';
+import { listImages } from './list-images.js';
+import { inspectImage } from './inspect-image.js';
+import { buildImage } from './build-image.js';
+import { pullImage } from './pull-image.js';
+import { snapshotContainer } from './snapshot-container.js';
+import { listSnapshots } from './list-snapshots.js';
+import { diffContainer } from './diff-container.js';
+import { restoreSnapshot } from './restore-snapshot.js';
 
 /**
  * Docker Container Tool Registry
@@ -12,11 +58,62 @@ import { getContainerInfo } from './get-container-info.js';
  * - exec: Execute commands in containers
  * - list_containers: List Docker containers
  * - get_container_info: Get detailed information about a container
+ * - exec_start / exec_status / exec_output / exec_kill: Background jobs for long-running commands
+ * - exec_output_page: Page through or search the full output of truncated exec results
+ * - shell_open / shell_run / shell_close: Persistent shell sessions
+ * - read_file / write_file / list_directory / copy_into / copy_out_of: File transfer via the Docker archive API
+ * - edit_file: Apply unified diffs or search/replace edits to a file
+ * - start_container / stop_container / restart_container / pause_container / unpause_container / remove_container: Container lifecycle
+ * - create_sandbox: Throwaway containers with resource limits and a TTL
+ * - container_logs: Read and follow container logs
+ * - container_stats / container_top: Resource usage and processes of one or more containers
+ * - audit_query: Search the audit log of tool calls
+ * - limiter_status: Concurrency and rate limiter state
+ * - list_compose_projects: Compose projects with their services, replicas and health
+ * - list_images / inspect_image: Images, their configuration, layers and history
+ * - build_image / pull_image: Build images from allowed context roots and pull from allowed registries
+ * - snapshot_container / list_snapshots / restore_snapshot: Checkpoints of a container's filesystem
+ * - diff_container: Filesystem changes of a container since it was created
  */
 export const AVAILABLE_TOOLS: ToolDefinition[] = [
   execCommand,
   listContainers,
-  getContainerInfo
+  getContainerInfo,
+  execStart,
+  execStatus,
+  execOutput,
+  execKill,
+  execOutputPage,
+  shellOpen,
+  shellRun,
+  shellClose,
+  readFile,
+  writeFile,
+  listDirectory,
+  copyInto,
+  copyOutOf,
+  editFile,
+  startContainer,
+  stopContainer,
+  restartContainer,
+  pauseContainer,
+  unpauseContainer,
+  removeContainer,
+  createSandbox,
+  containerLogs,
+  containerStats,
+  containerTop,
+  auditQuery,
+  limiterStatus,
+  listComposeProjects,
+  listImages,
+  inspectImage,
+  buildImage,
+  pullImage,
+  snapshotContainer,
+  listSnapshots,
+  diffContainer,
+  restoreSnapshot
 ];
 
 /**
@@ -31,4 +128,154 @@ export function getAllTools(): ToolDefinition[] {
  */
 export function getToolByName(name: string): ToolDefinition | undefined {
   return AVAILABLE_TOOLS.find(tool => tool.name === name);
-}
\ No newline at end of file
+}
+
+/**
+ * Containers a call targets, resolved before it runs (shell_close ends the
+ * session it would otherwise be looked up from). Also used to keep callers
+ * with a container allowlist away from other callers' jobs and output.
+ */
+function auditTargets(params: Record<string, unknown>, context: ToolContext): string[] {
+  if (typeof params.container_id === 'string') return [params.container_id];
+  if (Array.isArray(params.container_ids)) return params.container_ids.map(String);
+  if (typeof params.job_id === 'string') {
+    const job = context.jobs.get(params.job_id, context.auth?.clientId);
+    return job ? [job.containerId] : [];
+  }
+  if (typeof params.session_id === 'string') {
+    const session = context.shells.get(params.session_id, context.auth?.clientId);
+    return session ? [session.containerId] : [];
+  }
+  if (typeof params.handle === 'string') {
+    try {
+      return [context.outputs.get(params.handle, context.auth?.clientId).containerId];
+    } catch {
+      return [];
+    }
+  }
+  return [];
+}
+
+/**
+ * Replace `project/service[#index]` targets with the ID of the container
+ * they currently refer to, so the tools only ever see container IDs and names.
+ */
+async function resolveTargets<T extends Record<string, unknown>>(params: T, context: ToolContext): Promise<T> {
+  if (typeof params.container_id === 'string') {
+    return { ...params, container_id: await resolveContainerTarget(context.runtime, context.policy, params.container_id) };
+  }
+  if (Array.isArray(params.container_ids)) {
+    const containerIds = await Promise.all(params.container_ids.map(id => resolveContainerTarget(context.runtime, context.policy, String(id))));
+    return { ...params, container_ids: containerIds };
+  }
+  return params;
+}
+
+/**
+ * Mask secrets in the text blocks and structured content of a result.
+ */
+function redactResult(result: CallToolResult, redactor: Redactor): CallToolResult {
+  return {
+    ...result,
+    content: result.content.map(item => item.type === 'text' ? { ...item, text: redactor.redact(item.text) } : item),
+    structuredContent: redactor.redactValue(result.structuredContent)
+  };
+}
+
+function firstText(result: CallToolResult): string {
+  const block = result.content.find(item => item.type === 'text');
+  return block?.type === 'text' ? block.text : '';
+}
+
+/**
+ * Register the tools on an MCP server. Every tool gets an optional `host`
+ * parameter that selects the Docker endpoint it works on; tools that need the
+ * engine API are refused on local runtime hosts. Compose service targets are
+ * resolved to containers, calls pass the limiter first, results are redacted
+ * and every call is written to the audit log.
+ *
+ * With `auth`, the caller that opened the session, only the tools its scopes
+ * allow are listed. Scopes are checked again on every call against the
+ * credentials of that call.
+ */
+export function registerTools(server: McpServer, context: ToolContext, transport: AuditTransport, auth?: AuthInfo): void {
+  const hostParam = z.string().optional().describe(
+    `Docker host to use: ${context.hosts.names.join(', ')} (default: ${context.hosts.primary})`
+  );
+
+  AVAILABLE_TOOLS.filter(toolDef => hasScope(auth, toolDef.scope)).forEach(toolDef => {
+    server.registerTool(
+      toolDef.name,
+      {
+        description: toolDef.description,
+        inputSchema: { ...toolDef.inputSchema.shape, host: hostParam },
+        outputSchema: toolDef.outputSchema.shape
+      },
+      async (params: Record<string, unknown> & { host?: string }, extra: ToolExtra) => {
+        const startedAt = Date.now();
+        const caller = extra.authInfo?.clientId ?? (transport === 'stdio' ? 'stdio' : 'anonymous');
+        let result: CallToolResult;
+        let containers: string[] = [];
+
+        try {
+          if (!hasScope(extra.authInfo, toolDef.scope)) {
+            throw new Error(`${extra.authInfo!.clientId} lacks the '${toolDef.scope}' scope required by ${toolDef.name}`);
+          }
+          // Before anything reaches the engine, so callers over their rate cost nothing
+          context.limiter.admit(caller);
+          const hostContext = selectHost({ ...context, auth: extra.authInfo }, params.host);
+          if (toolDef.requiresEngine && hostContext.runtime.kind === 'local') {
+            throw new Error(`${toolDef.name} needs a Docker or Podman host; host '${hostContext.host}' uses the local runtime`);
+          }
+          const resolved = await resolveTargets(params, hostContext);
+          containers = auditTargets(resolved, hostContext);
+          if (allowedContainers(extra.authInfo)) {
+            for (const container of containers) {
+              await hostContext.policy.assertAccess(container);
+            }
+          }
+          const release = toolDef.throttled
+            ? await context.limiter.acquire({
+              containers: containers.map(container => `${hostContext.host}/${container}`),
+              signal: extra.signal
+            })
+            : () => undefined;
+          let held: Promise<unknown> | undefined;
+          try {
+            result = await toolDef.handler(resolved, { ...hostContext, holdSlots: until => { held = until; } }, extra);
+          } finally {
+            if (held) {
+              held.then(release, release);
+            } else {
+              release();
+            }
+          }
+        } catch (error) {
+          result = createErrorResponse(error);
+          if (error instanceof LimitExceededError) {
+            result._meta = { retryAfter: error.retryAfter };
+          }
+        }
+        result = redactResult(result, context.redactor);
+
+        const exitCode = result.structuredContent?.exitCode;
+        context.audit.record({
+          timestamp: new Date(startedAt).toISOString(),
+          transport,
+          caller,
+          tool: toolDef.name,
+          host: params.host || context.hosts.primary,
+          containers,
+          arguments: context.redactor.redactValue(redactArguments(params)),
+          isError: result.isError === true,
+          exitCode: typeof exitCode === 'number' ? exitCode : undefined,
+          durationMs: Date.now() - startedAt,
+          outputBytes: result.content.reduce((total, item) => total + (item.type === 'text' ? Buffer.byteLength(item.text) : 0), 0),
+          error: result.isError ? firstText(result).split('\n')[0] : undefined
+        });
+
+        return result;
+      }
+    );
+  });
+}
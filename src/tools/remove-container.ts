@@ -0,0 +1,59 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  force: z.boolean().optional().default(false).describe('Kill and remove the container if it is running'),
+  remove_volumes: z.boolean().optional().default(false).describe('Also remove anonymous volumes attached to the container')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  volumesRemoved: z.boolean(),
+  container: containerInfoSchema.describe('Last known state of the removed container')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, force, remove_volumes } = params;
+  const { docker, policy, guard, settings } = context;
+
+  if (!settings.allowRemove) {
+    return createErrorResponse('Removing containers is disabled. Set MCP_ALLOW_REMOVE=true on the server to allow remove_container.');
+  }
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+    if (info.State.Running && !force) {
+      throw new Error(`Container '${container_id}' is running; stop it first or set force`);
+    }
+
+    await docker.getContainer(container_id).remove({ force, v: remove_volumes });
+
+    // The container is gone, so report the last state it had
+    const summary = `Removed container ${container_id}${remove_volumes ? ' and its anonymous volumes' : ''}`;
+    return createSuccessResponse(`${summary}\n\nLast known state:\n\n${formatContainerInfo(info)}`, {
+      message: summary,
+      volumesRemoved: remove_volumes,
+      container: toContainerInfo(info)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error removing container');
+  }
+}
+
+export const removeContainer: ToolDefinition = {
+  name: 'remove_container',
+  description: 'Remove a Docker container. Disabled unless the server is started with MCP_ALLOW_REMOVE=true; running containers are only removed with force.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo, waitForHealthy, describeStartOutcome } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  timeout: z.number().optional().default(10).describe('Seconds to wait for a graceful stop before the container is killed'),
+  wait_healthy: z.boolean().optional().default(true).describe('Wait until the container\'s HEALTHCHECK reports healthy'),
+  health_timeout: z.number().optional().default(60).describe('Seconds to wait for the container to become healthy')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  outcome: z.enum(['running', 'healthy', 'unhealthy', 'exited', 'timeout']).describe('How the start ended'),
+  container: containerInfoSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, timeout, wait_healthy, health_timeout } = params;
+  const { docker, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const container = docker.getContainer(container_id);
+    await container.restart({ t: timeout });
+
+    const waitSeconds = wait_healthy ? health_timeout : 0;
+    const { info: current, outcome } = await waitForHealthy(container, waitSeconds);
+
+    const summary = `Restarted container ${container_id}`;
+    return createSuccessResponse(`${summary}\n${describeStartOutcome(outcome, waitSeconds)}\n\n${formatContainerInfo(current)}`, {
+      message: summary,
+      outcome,
+      container: toContainerInfo(current)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error restarting container');
+  }
+}
+
+export const restartContainer: ToolDefinition = {
+  name: 'restart_container',
+  description: 'Restart a Docker container with a graceful stop timeout and, by default, wait until its HEALTHCHECK reports healthy. Returns the resulting container state.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
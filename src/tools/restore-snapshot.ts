@@ -0,0 +1,126 @@
+import { z } from 'zod';
+import type Docker from 'dockerode';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo, isNotModified } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+import { SNAPSHOT_LABEL, SNAPSHOT_CONTAINER_LABEL, extraNetworks, recreateOptions } from '../utils/snapshotUtils.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  snapshot: z.string().describe('Snapshot image from snapshot_container or list_snapshots, e.g. "mcp-snapshot/dev-1:20261019-142501"'),
+  timeout: z.number().optional().default(10).describe('Seconds to wait for the running container to stop before it is killed')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  snapshot: z.string(),
+  previousId: z.string().describe('ID of the replaced container, which no longer exists unless leftoverName is set'),
+  leftoverName: z.string().optional().describe('Name the replaced container was left under because it could not be removed'),
+  container: containerInfoSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, snapshot, timeout } = params;
+  const { docker, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    const name = info.Name.replace(/^\//, '');
+    if (guard.isReadOnly([container_id, name])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const image = await docker.getImage(snapshot).inspect();
+    const labels = image.Config?.Labels ?? {};
+    if (labels[SNAPSHOT_LABEL] !== 'true') {
+      throw new Error(`'${snapshot}' is not a snapshot created by snapshot_container`);
+    }
+    if (labels[SNAPSHOT_CONTAINER_LABEL] !== name) {
+      throw new Error(`Snapshot '${snapshot}' was taken of '${labels[SNAPSHOT_CONTAINER_LABEL]}', not '${name}'`);
+    }
+
+    const old = docker.getContainer(info.Id);
+    const wasRunning = info.State.Running;
+    // Keep the old container under another name until the new one is up, so a failure can be undone
+    const parkedName = `${name}-replaced-${Date.now()}`;
+
+    try {
+      await old.stop({ t: timeout });
+    } catch (error) {
+      if (!isNotModified(error)) throw error;
+    }
+    try {
+      await old.rename({ name: parkedName });
+    } catch (error) {
+      if (wasRunning) {
+        await old.start().catch(() => undefined);
+      }
+      throw error;
+    }
+
+    let created: Docker.Container | undefined;
+    try {
+      created = await docker.createContainer(recreateOptions(info, image.Id));
+      for (const network of extraNetworks(info)) {
+        await docker.getNetwork(network.name).connect({ Container: created.id, EndpointConfig: network.config });
+      }
+      if (wasRunning) {
+        await created.start();
+      }
+    } catch (error) {
+      await created?.remove({ force: true }).catch(() => undefined);
+      let renameError: unknown;
+      try {
+        await old.rename({ name });
+      } catch (caught) {
+        renameError = caught;
+      }
+      if (wasRunning) {
+        await old.start().catch(() => undefined);
+      }
+      if (renameError !== undefined) {
+        const reason = error instanceof Error ? error.message : String(error);
+        const renameReason = renameError instanceof Error ? renameError.message : String(renameError);
+        throw new Error(`${reason}; the old container could not be renamed back and was left as ${parkedName}: ${renameReason}`);
+      }
+      throw error;
+    }
+
+    // Volumes stay: the new container mounts the same ones. The restore has
+    // succeeded at this point, so a failure only leaves the old one behind.
+    let leftoverName: string | undefined;
+    try {
+      await old.remove({ force: true, v: false });
+    } catch (error) {
+      leftoverName = parkedName;
+      console.error(`Failed to remove replaced container ${parkedName}:`, error);
+    }
+
+    const current = await created.inspect();
+    let summary = `Restored ${name} from snapshot ${snapshot}${wasRunning ? ' and started it' : ''}`;
+    if (leftoverName) {
+      summary += `. The old container could not be removed and was left as ${leftoverName}`;
+    }
+    return createSuccessResponse(`${summary}\n\n${formatContainerInfo(current)}`, {
+      message: summary,
+      snapshot,
+      previousId: info.Id,
+      leftoverName,
+      container: toContainerInfo(current)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error restoring snapshot');
+  }
+}
+
+export const restoreSnapshot: ToolDefinition = {
+  name: 'restore_snapshot',
+  description: 'Roll a container back to a snapshot: the container is replaced by a new one created from the snapshot image with the same name, configuration, mounts, volumes and networks, and started if it was running. The container gets a new ID; volumes and bind mounts keep their current content.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { toShellSessionData } from '../utils/shellUtils.js';
+import { shellSessionSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  session_id: z.string().describe('Session ID returned by shell_open')
+});
+
+const outputSchema = z.object({
+  session: shellSessionSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { session_id } = params;
+  const { shells } = context;
+
+  try {
+    const session = await shells.close(session_id, context.auth?.clientId);
+
+    return createSuccessResponse(`Closed shell session ${session.id} (${session.commandCount} commands run)`, {
+      session: toShellSessionData(session)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error closing shell session');
+  }
+}
+
+export const shellClose: ToolDefinition = {
+  name: 'shell_close',
+  description: 'Close a persistent shell session and stop any processes it left running.',
+  inputSchema,
+  outputSchema,
+  scope: 'exec',
+  handler
+};
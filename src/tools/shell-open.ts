@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { toShellSessionData } from '../utils/shellUtils.js';
+import { shellSessionSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  working_dir: z.string().optional().describe('Initial working directory of the shell (default: configured for the container, else the image\'s WORKDIR)'),
+  user: z.string().optional().describe('User to run the shell as (default: configured for the container, else the image\'s USER)'),
+  env: z.array(z.string()).optional().describe('Environment variables (format: KEY=value)')
+});
+
+const outputSchema = z.object({
+  session: shellSessionSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, env } = params;
+  const { shells, policy, exec } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    const { workingDir, user } = exec.workingDirAndUser(info, { workingDir: params.working_dir, user: params.user });
+
+    const session = await shells.open({
+      containerId: container_id,
+      shell: await exec.shell(info),
+      workingDir,
+      user,
+      env,
+      owner: context.auth?.clientId
+    });
+
+    let output = `Opened shell session ${session.id}\n\n`;
+    output += `Session:   ${session.id}\n`;
+    output += `Container: ${session.containerId}\n`;
+    if (session.user) output += `User:      ${session.user}\n`;
+    output += `Cwd:       ${session.cwd}\n\n`;
+    output += 'Use shell_run to run commands in it and shell_close when done.';
+
+    return createSuccessResponse(output, { session: toShellSessionData(session) });
+  } catch (error) {
+    return createErrorResponse(error, 'Error opening shell session');
+  }
+}
+
+export const shellOpen: ToolDefinition = {
+  name: 'shell_open',
+  description: 'Open a persistent shell session (bash, sh or ash) in a Docker container. Working directory, exported variables and activated virtualenvs are kept between shell_run calls.',
+  inputSchema,
+  outputSchema,
+  scope: 'exec',
+  throttled: true,
+  handler
+};
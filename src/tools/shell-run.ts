@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext, ToolExtra } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatGuardRefusal } from '../services/commandGuard.js';
+
+const inputSchema = z.object({
+  session_id: z.string().describe('Session ID returned by shell_open'),
+  command: z.string().describe('Command to run in the session'),
+  timeout: z.number().optional().default(30).describe('Command timeout in seconds (the command is interrupted, the session stays open)'),
+  include_env: z.boolean().optional().default(false).describe('Also return the exported environment of the session after the command'),
+  fail_on_nonzero_exit: z.boolean().optional().default(false).describe('Mark the result as an error when the command exits with a non-zero code')
+});
+
+const outputSchema = z.object({
+  sessionId: z.string(),
+  exitCode: z.number(),
+  stdout: z.string(),
+  stderr: z.string(),
+  cwd: z.string().describe('Working directory of the session after the command'),
+  durationMs: z.number(),
+  timedOut: z.boolean(),
+  truncated: z.boolean(),
+  env: z.record(z.string(), z.string()).optional().describe('Exported environment, when include_env was set')
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext, extra?: ToolExtra): Promise<CallToolResult> {
+  const { session_id, command, timeout, include_env, fail_on_nonzero_exit } = params;
+  const { shells, policy, guard } = context;
+
+  try {
+    const owner = context.auth?.clientId;
+    const session = shells.get(session_id, owner);
+    if (!session) {
+      throw new Error(`Shell session '${session_id}' not found (it may have been closed after being idle)`);
+    }
+
+    const info = await policy.assertAccess(session.containerId);
+
+    const decision = await guard.authorize(command, [session.containerId, info.Name.replace(/^\//, '')], extra);
+    if (decision.action !== 'allow') {
+      return createErrorResponse(formatGuardRefusal(command, decision));
+    }
+
+    const startedAt = Date.now();
+    const result = await shells.run(session_id, command, timeout, owner);
+    const durationMs = Date.now() - startedAt;
+
+    let output = '';
+    if (result.stdout) {
+      output += `STDOUT:\n${result.stdout}\n`;
+    }
+    if (result.stderr) {
+      output += `STDERR:\n${result.stderr}\n`;
+    }
+    if (result.truncated) {
+      output += `[output truncated]\n`;
+    }
+    if (result.timedOut) {
+      output += `Command timed out after ${timeout}s and was interrupted\n`;
+    }
+    output += `Exit Code: ${result.exitCode}\n`;
+    output += `Cwd: ${result.cwd}`;
+
+    let env: Record<string, string> | undefined;
+    if (include_env) {
+      env = await shells.env(session_id, owner);
+      output += `\n\nEnvironment:\n`;
+      for (const [name, value] of Object.entries(env)) {
+        output += `  ${name}=${value}\n`;
+      }
+    }
+
+    return createSuccessResponse(output, {
+      sessionId: session_id,
+      exitCode: result.exitCode,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      cwd: result.cwd,
+      durationMs,
+      timedOut: result.timedOut,
+      truncated: result.truncated,
+      env
+    }, (fail_on_nonzero_exit && result.exitCode !== 0) || result.timedOut);
+  } catch (error) {
+    return createErrorResponse(error, 'Execution error');
+  }
+}
+
+export const shellRun: ToolDefinition = {
+  name: 'shell_run',
+  description: 'Run a command in a persistent shell session opened with shell_open. cd, export and source persist to the next command.',
+  inputSchema,
+  outputSchema,
+  scope: 'exec',
+  throttled: true,
+  handler
+};
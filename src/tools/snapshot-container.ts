@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatBytes } from '../utils/outputUtils.js';
+import {
+  SNAPSHOT_LABEL,
+  SNAPSHOT_CONTAINER_LABEL,
+  SNAPSHOT_CONTAINER_ID_LABEL,
+  SNAPSHOT_NOTE_LABEL,
+  SNAPSHOT_CREATED_LABEL,
+  snapshotRepository,
+  snapshotTag
+} from '../utils/snapshotUtils.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  note: z.string().optional().describe('What the snapshot is for, e.g. "before upgrading postgres"'),
+  tag: z.string().optional().describe('Tag for the snapshot image (default: the current time, e.g. 20261019-142501)'),
+  pause: z.boolean().optional().default(true).describe('Pause the container while it is committed so the snapshot is consistent')
+});
+
+const outputSchema = z.object({
+  snapshot: z.object({
+    image: z.string().describe('Image name to pass to restore_snapshot'),
+    id: z.string(),
+    container: z.string(),
+    containerId: z.string(),
+    note: z.string().optional(),
+    created: z.string(),
+    size: z.number()
+  })
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, note, tag, pause } = params;
+  const { docker, policy } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    const name = info.Name.replace(/^\//, '');
+    const created = new Date();
+    const repo = snapshotRepository(name);
+    const snapshotTagName = tag ?? snapshotTag(created);
+
+    // The container's own configuration is merged into the image by Docker; only the labels are added
+    const result = await docker.getContainer(info.Id).commit({
+      _query: { container: info.Id, repo, tag: snapshotTagName, comment: note ?? '', pause },
+      _body: {
+        Labels: {
+          [SNAPSHOT_LABEL]: 'true',
+          [SNAPSHOT_CONTAINER_LABEL]: name,
+          [SNAPSHOT_CONTAINER_ID_LABEL]: info.Id,
+          [SNAPSHOT_NOTE_LABEL]: note ?? '',
+          [SNAPSHOT_CREATED_LABEL]: created.toISOString()
+        }
+      }
+    }) as { Id: string };
+
+    const image = await docker.getImage(result.Id).inspect();
+    const snapshot = {
+      image: `${repo}:${snapshotTagName}`,
+      id: image.Id,
+      container: name,
+      containerId: info.Id,
+      note,
+      created: created.toISOString(),
+      size: image.Size
+    };
+
+    let output = `Snapshot of ${name} created: ${snapshot.image}\n`;
+    output += `ID:      ${snapshot.id}\n`;
+    output += `Size:    ${formatBytes(snapshot.size)}\n`;
+    if (note) output += `Note:    ${note}\n`;
+    output += `\nUse restore_snapshot with snapshot "${snapshot.image}" to roll ${name} back to this state.`;
+
+    return createSuccessResponse(output, { snapshot });
+  } catch (error) {
+    return createErrorResponse(error, 'Error creating snapshot');
+  }
+}
+
+export const snapshotContainer: ToolDefinition = {
+  name: 'snapshot_container',
+  description: 'Commit the filesystem of a container to a labeled snapshot image (mcp-snapshot/<name>:<tag>) with an optional note, as a checkpoint restore_snapshot can roll back to. Volumes and bind mounts are not part of the snapshot.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
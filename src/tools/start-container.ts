@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo, isNotModified, waitForHealthy, describeStartOutcome } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  wait_healthy: z.boolean().optional().default(true).describe('Wait until the container\'s HEALTHCHECK reports healthy'),
+  health_timeout: z.number().optional().default(60).describe('Seconds to wait for the container to become healthy')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  outcome: z.enum(['running', 'healthy', 'unhealthy', 'exited', 'timeout']).describe('How the start ended'),
+  container: containerInfoSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, wait_healthy, health_timeout } = params;
+  const { docker, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const container = docker.getContainer(container_id);
+    let summary = `Started container ${container_id}`;
+    try {
+      await container.start();
+    } catch (error) {
+      if (!isNotModified(error)) throw error;
+      summary = `Container ${container_id} was already running`;
+    }
+
+    const waitSeconds = wait_healthy ? health_timeout : 0;
+    const { info: current, outcome } = await waitForHealthy(container, waitSeconds);
+
+    return createSuccessResponse(`${summary}\n${describeStartOutcome(outcome, waitSeconds)}\n\n${formatContainerInfo(current)}`, {
+      message: summary,
+      outcome,
+      container: toContainerInfo(current)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error starting container');
+  }
+}
+
+export const startContainer: ToolDefinition = {
+  name: 'start_container',
+  description: 'Start a stopped Docker container and, by default, wait until its HEALTHCHECK reports healthy. Returns the resulting container state.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,55 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo, isNotModified } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  timeout: z.number().optional().default(10).describe('Seconds to wait for a graceful stop (SIGTERM) before the container is killed')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  container: containerInfoSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, timeout } = params;
+  const { docker, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const container = docker.getContainer(container_id);
+    let summary = `Stopped container ${container_id}`;
+    try {
+      await container.stop({ t: timeout });
+    } catch (error) {
+      if (!isNotModified(error)) throw error;
+      summary = `Container ${container_id} was already stopped`;
+    }
+
+    const current = await container.inspect();
+    return createSuccessResponse(`${summary}\n\n${formatContainerInfo(current)}`, {
+      message: summary,
+      container: toContainerInfo(current)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error stopping container');
+  }
+}
+
+export const stopContainer: ToolDefinition = {
+  name: 'stop_container',
+  description: 'Stop a running Docker container. It gets SIGTERM and is killed if it has not exited after the timeout. Returns the resulting container state.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
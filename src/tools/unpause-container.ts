@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { formatContainerInfo, toContainerInfo } from '../utils/containerUtils.js';
+import { containerInfoSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]')
+});
+
+const outputSchema = z.object({
+  message: z.string(),
+  container: containerInfoSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id } = params;
+  const { docker, policy, guard } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    const container = docker.getContainer(container_id);
+    await container.unpause();
+
+    const summary = `Unpaused container ${container_id}`;
+    const current = await container.inspect();
+    return createSuccessResponse(`${summary}\n\n${formatContainerInfo(current)}`, {
+      message: summary,
+      container: toContainerInfo(current)
+    });
+  } catch (error) {
+    return createErrorResponse(error, 'Error unpausing container');
+  }
+}
+
+export const unpauseContainer: ToolDefinition = {
+  name: 'unpause_container',
+  description: 'Resume the processes of a paused Docker container. Returns the resulting container state.',
+  inputSchema,
+  outputSchema,
+  scope: 'lifecycle',
+  requiresEngine: true,
+  handler
+};
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { ToolDefinition, ToolContext } from '../shared/types.js';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { createSuccessResponse, createErrorResponse } from '../utils/responseUtils.js';
+import { writeContainerFile, formatMode, toFileStatData } from '../utils/containerFiles.js';
+import { fileStatSchema } from '../shared/schemas.js';
+
+const inputSchema = z.object({
+  container_id: z.string().describe('Container ID, name or compose service as project/service[#index]'),
+  path: z.string().describe('Absolute path of the file in the container'),
+  content: z.string().describe('File content'),
+  encoding: z.enum(['utf8', 'base64']).optional().default('utf8').describe('Encoding of content. Use base64 for binary files'),
+  mode: z.string().optional().describe('File mode in octal, e.g. "0755" (default: keep existing mode, 0644 for new files)'),
+  uid: z.number().optional().describe('Owner user ID (default: keep existing owner, root for new files)'),
+  gid: z.number().optional().describe('Owner group ID (default: keep existing group, root for new files)'),
+  create_dirs: z.boolean().optional().default(false).describe('Create missing parent directories')
+});
+
+const outputSchema = z.object({
+  file: fileStatSchema
+});
+
+async function handler(params: z.infer<typeof inputSchema>, context: ToolContext): Promise<CallToolResult> {
+  const { container_id, path, content, encoding, mode, uid, gid, create_dirs } = params;
+  const { runtime, policy, guard, redactor, settings } = context;
+
+  try {
+    const info = await policy.assertAccess(container_id);
+    if (guard.isReadOnly([container_id, info.Name.replace(/^\//, '')])) {
+      throw new Error(`Container '${container_id}' is read-only`);
+    }
+
+    if (encoding === 'utf8') {
+      redactor.assertNoNewMasks(content);
+    }
+
+    const data = Buffer.from(content, encoding);
+    if (data.length > settings.maxFileSize) {
+      throw new Error(`Content is ${data.length} bytes, more than the ${settings.maxFileSize} bytes allowed (MCP_MAX_FILE_SIZE)`);
+    }
+
+    const parsedMode = mode !== undefined ? parseInt(mode, 8) : undefined;
+    if (parsedMode !== undefined && (Number.isNaN(parsedMode) || parsedMode > 0o7777)) {
+      throw new Error(`Invalid mode '${mode}'`);
+    }
+
+    const container = runtime.getContainer(container_id);
+    const stat = await writeContainerFile(container, path, data, {
+      mode: parsedMode,
+      uid,
+      gid,
+      createDirs: create_dirs
+    });
+
+    return createSuccessResponse(
+      `Wrote ${stat.size} bytes to ${path} (${formatMode(stat)}, owner ${stat.uid}:${stat.gid})`,
+      { file: toFileStatData(stat) }
+    );
+  } catch (error) {
+    return createErrorResponse(error, 'Error writing file');
+  }
+}
+
+export const writeFile: ToolDefinition = {
+  name: 'write_file',
+  description: 'Write a file to a Docker container using the Docker archive API (no shell needed). Keeps the mode and owner of existing files; accepts base64 for binary content.',
+  inputSchema,
+  outputSchema,
+  scope: 'files:write',
+  handler
+};
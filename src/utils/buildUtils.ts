@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import tarFs from 'tar-fs';
+import tar from 'tar-stream';
+import type { Readable } from 'stream';
+import { globToRegExp, matchesGlob } from './matchUtils.js';
+
+// Name of an inline Dockerfile in the build context; unlikely to shadow a real file
+export const INLINE_DOCKERFILE = '.mcp-inline.Dockerfile';
+
+interface IgnoreRule {
+  pattern: RegExp;
+  negate: boolean;
+}
+
+export interface BuildContextOptions {
+  /** Host directory sent as the build context; an empty context when omitted */
+  contextDir?: string;
+  /** Dockerfile path relative to the context (default: Dockerfile) */
+  dockerfile?: string;
+  /** Dockerfile content, used instead of a file from the context */
+  dockerfileContent?: string;
+}
+
+export interface BuildContext {
+  archive: Readable;
+  /** Dockerfile path to pass to the build */
+  dockerfile: string;
+}
+
+export interface BuildStep {
+  /** Step number and total, e.g. `3/7` */
+  step: string;
+  instruction: string;
+}
+
+export interface BuildResult {
+  log: string;
+  /** Image ID of a successful build */
+  imageId?: string;
+  error?: string;
+  /** Step that was running when the build failed */
+  failedStep?: BuildStep;
+}
+
+interface BuildMessage {
+  stream?: string;
+  status?: string;
+  error?: string;
+  errorDetail?: { message?: string };
+  aux?: { ID?: string };
+}
+
+/**
+ * Parse a .dockerignore file. Patterns are matched against paths relative
+ * to the context, and also exclude everything below a matching directory.
+ * `*` may also match `/`, so this is slightly broader than Docker's rules.
+ */
+export function parseDockerignore(content: string): IgnoreRule[] {
+  return content
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => {
+      const negate = line.startsWith('!');
+      const pattern = path.posix.normalize((negate ? line.slice(1) : line).trim()).replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '');
+      return { pattern: globToRegExp(pattern.replace(/\*\*/g, '*')), negate };
+    });
+}
+
+/**
+ * Whether a context relative path is excluded; the last matching rule wins.
+ */
+export function isIgnored(relativePath: string, rules: IgnoreRule[]): boolean {
+  const parts = relativePath.split('/');
+  const candidates = parts.map((_, index) => parts.slice(0, index + 1).join('/'));
+  let ignored = false;
+  for (const rule of rules) {
+    if (candidates.some(candidate => rule.pattern.test(candidate))) {
+      ignored = !rule.negate;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * Pack a build context as a tar stream, honouring its .dockerignore. The
+ * Dockerfile and .dockerignore are always sent, as the Docker CLI does.
+ */
+export function createBuildContext(options: BuildContextOptions): BuildContext {
+  const inline = options.dockerfileContent !== undefined;
+  const dockerfile = inline ? INLINE_DOCKERFILE : path.posix.normalize(options.dockerfile ?? 'Dockerfile');
+  const addInline = (pack: tar.Pack) => {
+    pack.entry({ name: INLINE_DOCKERFILE, mode: 0o644 }, options.dockerfileContent!);
+    pack.finalize();
+  };
+
+  if (!options.contextDir) {
+    if (!inline) {
+      throw new Error('Give a context directory, an inline Dockerfile or both');
+    }
+    const pack = tar.pack();
+    addInline(pack);
+    return { archive: pack as unknown as Readable, dockerfile };
+  }
+
+  const contextDir = options.contextDir;
+  if (!inline && !fs.existsSync(path.join(contextDir, dockerfile))) {
+    throw new Error(`Dockerfile '${dockerfile}' not found in ${contextDir}`);
+  }
+
+  const ignoreFile = path.join(contextDir, '.dockerignore');
+  const rules = fs.existsSync(ignoreFile) ? parseDockerignore(fs.readFileSync(ignoreFile, 'utf8')) : [];
+  const hasExceptions = rules.some(rule => rule.negate);
+
+  const archive = tarFs.pack(contextDir, {
+    ignore: (name) => {
+      const relative = path.relative(contextDir, name).split(path.sep).join('/');
+      if (relative === dockerfile || relative === '.dockerignore' || !isIgnored(relative, rules)) return false;
+      // With exceptions, an excluded directory may still contain files that are sent
+      return !(hasExceptions && fs.lstatSync(name).isDirectory());
+    },
+    finalize: !inline,
+    finish: inline ? addInline : undefined
+  });
+  return { archive: archive as unknown as Readable, dockerfile };
+}
+
+/**
+ * Collect the output of a classic builder build. `onText` receives the log
+ * as it arrives. A failed build ends the log with a marker naming the step
+ * that failed.
+ */
+export function collectBuildOutput(stream: NodeJS.ReadableStream, onText?: (text: string) => void): Promise<BuildResult> {
+  return new Promise((resolve, reject) => {
+    let log = '';
+    let buffer = '';
+    let imageId: string | undefined;
+    let error: string | undefined;
+    let currentStep: BuildStep | undefined;
+
+    const append = (text: string) => {
+      log += text;
+      onText?.(text);
+      for (const line of text.split('\n')) {
+        const step = line.match(/^Step (\d+\/\d+) : (.*)$/);
+        if (step) currentStep = { step: step[1], instruction: step[2].trim() };
+      }
+    };
+
+    const handle = (line: string) => {
+      let message: BuildMessage;
+      try {
+        message = JSON.parse(line) as BuildMessage;
+      } catch {
+        append(`${line}\n`);
+        return;
+      }
+      if (message.stream) append(message.stream);
+      if (message.status) append(`${message.status}\n`);
+      if (message.aux?.ID) imageId = message.aux.ID;
+      if (message.error || message.errorDetail?.message) {
+        error = message.errorDetail?.message ?? message.error;
+      }
+    };
+
+    stream.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      lines.filter(line => line.trim()).forEach(handle);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => {
+      if (buffer.trim()) handle(buffer);
+      if (error === undefined) {
+        resolve({ log, imageId });
+        return;
+      }
+
+      const marker = currentStep
+        ? `>>> BUILD FAILED at Step ${currentStep.step} : ${currentStep.instruction}\n>>> ${error}\n`
+        : `>>> BUILD FAILED: ${error}\n`;
+      append(`${log.endsWith('\n') || log === '' ? '' : '\n'}${marker}`);
+      resolve({ log, error, failedStep: currentStep });
+    });
+  });
+}
+
+/**
+ * Images the FROM lines of a Dockerfile start from. Stage names (`FROM … AS
+ * name`) referenced by later stages and `scratch` are skipped; `$VAR` and
+ * `${VAR}` are replaced with the ARGs declared before the first FROM,
+ * overridden by `buildArgs`. Throws when a reference cannot be resolved,
+ * since the image it names cannot be checked.
+ */
+export function dockerfileBaseImages(content: string, buildArgs: Record<string, string> = {}): string[] {
+  const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/).map(line => line.trim());
+  const args: Record<string, string> = {};
+  const stages = new Set<string>();
+  const images: string[] = [];
+  let seenFrom = false;
+
+  const substitute = (value: string) => value.replace(
+    /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}|([A-Za-z_][A-Za-z0-9_]*))/g,
+    (_, braced: string | undefined, fallback: string | undefined, plain: string | undefined) => {
+      const name = braced ?? plain!;
+      return buildArgs[name] ?? args[name] ?? fallback ?? '';
+    }
+  );
+
+  for (const line of lines) {
+    const [instruction, ...rest] = line.split(/\s+/);
+    if (!instruction || instruction.startsWith('#')) continue;
+
+    if (instruction.toUpperCase() === 'ARG' && !seenFrom) {
+      for (const declaration of rest) {
+        const index = declaration.indexOf('=');
+        const name = index === -1 ? declaration : declaration.slice(0, index);
+        args[name] = index === -1 ? '' : declaration.slice(index + 1).replace(/^(["'])(.*)\1$/, '$2');
+      }
+      continue;
+    }
+    if (instruction.toUpperCase() !== 'FROM') continue;
+
+    seenFrom = true;
+    const words = rest.filter(word => !word.startsWith('--'));
+    const reference = substitute(words[0] ?? '');
+    if (!reference || reference.includes('$')) {
+      throw new Error(`Cannot determine the base image of '${line}'`);
+    }
+    if (reference.toLowerCase() !== 'scratch' && !stages.has(reference.toLowerCase()) && !images.includes(reference)) {
+      images.push(reference);
+    }
+    if (words[1]?.toUpperCase() === 'AS' && words[2]) {
+      stages.add(words[2].toLowerCase());
+    }
+  }
+  return images;
+}
+
+/**
+ * Registry host of an image reference, `docker.io` for Docker Hub images.
+ */
+export function imageRegistry(image: string): string {
+  const slash = image.indexOf('/');
+  if (slash === -1) return 'docker.io';
+  const first = image.slice(0, slash);
+  return first.includes('.') || first.includes(':') || first === 'localhost' ? first : 'docker.io';
+}
+
+/**
+ * Throw unless the image's registry matches one of the MCP_PULL_REGISTRIES
+ * patterns. Returns the registry.
+ */
+export function assertPullAllowed(image: string, registries: string[]): string {
+  const registry = imageRegistry(image);
+  if (registries.length === 0) {
+    throw new Error('Pulling images is disabled. Set MCP_PULL_REGISTRIES to allow registries.');
+  }
+  if (!registries.some(pattern => matchesGlob(registry, pattern))) {
+    throw new Error(`Registry '${registry}' is not in MCP_PULL_REGISTRIES (${registries.join(', ')})`);
+  }
+  return registry;
+}
@@ -0,0 +1,83 @@
+import type Docker from 'dockerode';
+import { COMPOSE_PROJECT_LABEL, type ContainerPolicy } from '../services/containerPolicy.js';
+import type { ContainerRuntime } from '../services/containerRuntime.js';
+
+export const COMPOSE_SERVICE_LABEL = 'com.docker.compose.service';
+export const COMPOSE_NUMBER_LABEL = 'com.docker.compose.container-number';
+export const COMPOSE_WORKING_DIR_LABEL = 'com.docker.compose.project.working_dir';
+export const COMPOSE_CONFIG_FILES_LABEL = 'com.docker.compose.project.config_files';
+
+export interface ServiceTarget {
+  project: string;
+  service: string;
+  /** Replica number (`com.docker.compose.container-number`), 1 for the first */
+  index?: number;
+}
+
+export type ContainerHealth = 'healthy' | 'unhealthy' | 'starting' | 'none';
+
+/**
+ * Parse a `project/service[#index]` target. Container names cannot contain
+ * a slash, so anything else is a container name or ID.
+ */
+export function parseServiceTarget(value: string): ServiceTarget | undefined {
+  const match = value.match(/^([^/#]+)\/([^/#]+)(?:#(\d+))?$/);
+  if (!match) return undefined;
+  return { project: match[1], service: match[2], index: match[3] ? parseInt(match[3], 10) : undefined };
+}
+
+/**
+ * `project/service#index` of a compose container, undefined for other containers.
+ */
+export function formatServiceTarget(labels: Record<string, string> | undefined): string | undefined {
+  const project = labels?.[COMPOSE_PROJECT_LABEL];
+  const service = labels?.[COMPOSE_SERVICE_LABEL];
+  if (!project || !service) return undefined;
+  const number = labels?.[COMPOSE_NUMBER_LABEL];
+  return number ? `${project}/${service}#${number}` : `${project}/${service}`;
+}
+
+/**
+ * Health from the status text of a container listing, e.g. `Up 2 hours (healthy)`.
+ */
+export function healthFromStatus(status: string | undefined): ContainerHealth {
+  const match = status?.match(/\((healthy|unhealthy|health: starting)\)/);
+  if (!match) return 'none';
+  return match[1] === 'health: starting' ? 'starting' : match[1] as ContainerHealth;
+}
+
+function replicaNumber(container: Docker.ContainerInfo): number {
+  return parseInt(container.Labels?.[COMPOSE_NUMBER_LABEL] ?? '', 10) || 1;
+}
+
+/**
+ * Resolve a `project/service[#index]` target to a container ID. Other
+ * targets are returned unchanged.
+ *
+ * Without an index the lowest numbered running replica is used, or the
+ * lowest numbered one when none is running (e.g. to read its logs).
+ * Containers outside the access policy are not considered.
+ */
+export async function resolveContainerTarget(runtime: ContainerRuntime, policy: ContainerPolicy, target: string): Promise<string> {
+  const service = parseServiceTarget(target);
+  if (!service) return target;
+
+  const containers = policy.filter(await runtime.listContainers({
+    all: true,
+    filters: { label: [`${COMPOSE_PROJECT_LABEL}=${service.project}`, `${COMPOSE_SERVICE_LABEL}=${service.service}`] }
+  })).sort((a, b) => replicaNumber(a) - replicaNumber(b));
+
+  if (containers.length === 0) {
+    throw new Error(`No accessible container for service '${service.service}' of compose project '${service.project}'. Use list_compose_projects to see the projects and services.`);
+  }
+
+  if (service.index !== undefined) {
+    const container = containers.find(candidate => replicaNumber(candidate) === service.index);
+    if (!container) {
+      throw new Error(`Service '${service.project}/${service.service}' has no replica #${service.index} (replicas: ${containers.map(replicaNumber).join(', ')})`);
+    }
+    return container.Id;
+  }
+
+  return (containers.find(container => container.State === 'running') ?? containers[0]).Id;
+}
@@ -0,0 +1,357 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import tar, { type Header } from 'tar-stream';
+import { runContainerCommand } from './processUtils.js';
+import type { FileStatData } from '../shared/schemas.js';
+import type { RuntimeContainer } from '../services/containerRuntime.js';
+
+/**
+ * Helpers for reading and writing container files through the runtime's
+ * archive API (GET/PUT /containers/{id}/archive on Docker and Podman). Unlike
+ * exec these need no shell or coreutils in the container, so they also work
+ * on distroless images and on stopped containers.
+ */
+
+export interface ContainerFileStat {
+  path: string;
+  type: Header['type'];
+  size: number;
+  mode: number;
+  uid: number;
+  gid: number;
+  mtime?: Date;
+  linkTarget?: string;
+}
+
+export interface ReadFileOptions {
+  /** First byte to return */
+  offset?: number;
+  /** Maximum number of bytes to return */
+  length?: number;
+}
+
+export interface ReadFileResult {
+  stat: ContainerFileStat;
+  data: Buffer;
+  offset: number;
+}
+
+export interface WriteFileOptions {
+  mode?: number;
+  uid?: number;
+  gid?: number;
+  /** Create missing parent directories */
+  createDirs?: boolean;
+}
+
+export type EntryHeader = Partial<Header> & Pick<Header, 'name'>;
+
+export interface DirectoryEntry extends ContainerFileStat {
+  depth: number;
+}
+
+function toStat(header: Header, filePath: string): ContainerFileStat {
+  return {
+    path: filePath,
+    type: header.type,
+    size: header.size,
+    mode: header.mode & 0o7777,
+    uid: header.uid,
+    gid: header.gid,
+    mtime: header.mtime,
+    linkTarget: header.linkname || undefined
+  };
+}
+
+function isNotFound(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { statusCode?: number }).statusCode === 404;
+}
+
+/**
+ * Walk the entries of a container archive. The visitor returns false to stop
+ * early, in which case the rest of the download is aborted.
+ */
+async function walkArchive(
+  container: RuntimeContainer,
+  containerPath: string,
+  visit: (header: Header, entry: AsyncIterable<Buffer>) => Promise<boolean | void>
+): Promise<void> {
+  const archive = await container.getArchive(containerPath);
+  const extract = tar.extract();
+
+  await new Promise<void>((resolve, reject) => {
+    let stopped = false;
+
+    extract.on('entry', (header, entry, next) => {
+      if (stopped) {
+        entry.resume();
+        return next();
+      }
+      visit(header, entry as AsyncIterable<Buffer>).then((keepGoing) => {
+        if (keepGoing === false) {
+          stopped = true;
+          archive.destroy();
+          resolve();
+          return;
+        }
+        entry.resume();
+        next();
+      }, (error) => {
+        archive.destroy();
+        reject(error);
+      });
+    });
+    extract.on('finish', resolve);
+    extract.on('error', reject);
+    archive.on('error', (error: Error) => {
+      if (!stopped) reject(error);
+    });
+
+    archive.pipe(extract);
+  });
+}
+
+/**
+ * Stat a path without downloading its contents.
+ */
+export async function statContainerPath(container: RuntimeContainer, containerPath: string): Promise<ContainerFileStat> {
+  let stat: ContainerFileStat | undefined;
+  await walkArchive(container, containerPath, async (header) => {
+    stat = toStat(header, containerPath);
+    return false;
+  });
+  if (!stat) {
+    throw new Error(`Path '${containerPath}' not found`);
+  }
+  return stat;
+}
+
+/**
+ * Read a byte range of a regular file. Only the requested range is kept in
+ * memory; the download is aborted as soon as it has been received.
+ */
+export async function readContainerFile(
+  container: RuntimeContainer,
+  containerPath: string,
+  options: ReadFileOptions = {}
+): Promise<ReadFileResult> {
+  const offset = options.offset ?? 0;
+  let result: ReadFileResult | undefined;
+
+  await walkArchive(container, containerPath, async (header, entry) => {
+    const stat = toStat(header, containerPath);
+    if (stat.type !== 'file') {
+      throw new Error(`'${containerPath}' is not a regular file (${stat.type}${stat.linkTarget ? ` -> ${stat.linkTarget}` : ''})`);
+    }
+
+    const end = Math.min(stat.size, options.length === undefined ? stat.size : offset + options.length);
+    const chunks: Buffer[] = [];
+    let position = 0;
+
+    for await (const chunk of entry) {
+      const chunkStart = position;
+      position += chunk.length;
+      if (position <= offset) continue;
+      chunks.push(chunk.subarray(Math.max(0, offset - chunkStart), Math.max(0, end - chunkStart)));
+      if (position >= end) break;
+    }
+
+    result = { stat, data: Buffer.concat(chunks), offset: Math.min(offset, stat.size) };
+    return false;
+  });
+
+  if (!result) {
+    throw new Error(`Path '${containerPath}' not found`);
+  }
+  return result;
+}
+
+/**
+ * Write a file. Mode and ownership of an existing file are preserved unless
+ * given explicitly; new files default to 0644 owned by root.
+ */
+export async function writeContainerFile(
+  container: RuntimeContainer,
+  containerPath: string,
+  data: Buffer,
+  options: WriteFileOptions = {}
+): Promise<ContainerFileStat> {
+  let existing: ContainerFileStat | undefined;
+  try {
+    existing = await statContainerPath(container, containerPath);
+  } catch (error) {
+    if (!isNotFound(error)) throw error;
+  }
+
+  if (existing && existing.type === 'directory') {
+    throw new Error(`'${containerPath}' is a directory`);
+  }
+
+  const stat: ContainerFileStat = {
+    path: containerPath,
+    type: 'file',
+    size: data.length,
+    mode: options.mode ?? existing?.mode ?? 0o644,
+    uid: options.uid ?? existing?.uid ?? 0,
+    gid: options.gid ?? existing?.gid ?? 0,
+    mtime: new Date()
+  };
+  const header: EntryHeader = {
+    name: path.posix.basename(containerPath),
+    type: 'file',
+    size: stat.size,
+    mode: stat.mode,
+    uid: stat.uid,
+    gid: stat.gid,
+    mtime: stat.mtime
+  };
+
+  const directory = path.posix.dirname(containerPath);
+  try {
+    await putEntries(container, directory, [{ header, data }]);
+  } catch (error) {
+    if (!isNotFound(error) || !options.createDirs) throw error;
+    // Docker creates missing parent directories when extracting at the root
+    await putEntries(container, '/', [{ header: { ...header, name: containerPath.replace(/^\/+/, '') }, data }]);
+  }
+
+  return stat;
+}
+
+/**
+ * Replace an existing file atomically: the new content is written to a
+ * temporary file next to it and renamed over the original with `mv`. When
+ * the container is not running, has no `mv` (distroless images) or is a
+ * local directory container the file is written in place instead.
+ *
+ * If `expected` is given the write is refused when the file's size or
+ * modification time changed since it was read.
+ */
+export async function replaceContainerFile(
+  container: RuntimeContainer,
+  containerPath: string,
+  data: Buffer,
+  expected?: ContainerFileStat
+): Promise<{ stat: ContainerFileStat; atomic: boolean }> {
+  const current = await statContainerPath(container, containerPath);
+  if (expected && (current.size !== expected.size || current.mtime?.getTime() !== expected.mtime?.getTime())) {
+    throw new Error(`'${containerPath}' was modified while it was being edited; nothing was written`);
+  }
+
+  const options = { mode: current.mode, uid: current.uid, gid: current.gid };
+  const info = await container.inspect();
+  if (info.State.Running && container.commandsSeeRoot) {
+    const directory = path.posix.dirname(containerPath);
+    const tempPath = path.posix.join(directory, `.${path.posix.basename(containerPath)}.mcp-${randomUUID().slice(0, 8)}`);
+    const probe = await runContainerCommand(container, ['mv', '--help'], '0').catch(() => undefined);
+
+    // 126/127: the runtime could not find or execute mv
+    if (probe && probe.exitCode !== 126 && probe.exitCode !== 127) {
+      const stat = await writeContainerFile(container, tempPath, data, options);
+      const moved = await runContainerCommand(container, ['mv', '-f', tempPath, containerPath], '0');
+      if (moved.exitCode !== 0) {
+        await runContainerCommand(container, ['rm', '-f', tempPath], '0').catch(() => undefined);
+        throw new Error(`Failed to move the new content into place: ${moved.stderr.trim() || `exit code ${moved.exitCode}`}`);
+      }
+      return { stat: { ...stat, path: containerPath }, atomic: true };
+    }
+  }
+
+  const stat = await writeContainerFile(container, containerPath, data, options);
+  return { stat, atomic: false };
+}
+
+/**
+ * Upload a tar archive built from the given entries and extract it at `directory`.
+ */
+export async function putEntries(
+  container: RuntimeContainer,
+  directory: string,
+  entries: Array<{ header: EntryHeader; data?: Buffer }>
+): Promise<void> {
+  const pack = tar.pack();
+  for (const { header, data } of entries) {
+    if (data) {
+      pack.entry(header, data);
+    } else {
+      pack.entry(header);
+    }
+  }
+  pack.finalize();
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of pack) {
+    chunks.push(chunk as Buffer);
+  }
+
+  // copyUIDGID makes Docker apply the uid/gid from the tar headers instead of root
+  await container.putArchive(Buffer.concat(chunks), { path: directory, copyUIDGID: true });
+}
+
+/**
+ * List a directory. `depth` 1 lists direct children only. Stops after `limit` entries.
+ */
+export async function listContainerDirectory(
+  container: RuntimeContainer,
+  containerPath: string,
+  depth: number,
+  limit: number
+): Promise<{ entries: DirectoryEntry[]; truncated: boolean }> {
+  const entries: DirectoryEntry[] = [];
+  let truncated = false;
+  let root: string | undefined;
+
+  await walkArchive(container, containerPath, async (header) => {
+    // The archive is rooted at the basename of the requested directory
+    const name = header.name.replace(/\/$/, '');
+    if (root === undefined) {
+      root = name;
+      if (header.type !== 'directory') {
+        throw new Error(`'${containerPath}' is not a directory`);
+      }
+      return;
+    }
+
+    const relative = name.slice(root.length + 1);
+    const entryDepth = relative.split('/').length;
+    if (entryDepth > depth) return;
+
+    if (entries.length >= limit) {
+      truncated = true;
+      return false;
+    }
+
+    entries.push({ ...toStat(header, relative), depth: entryDepth });
+  });
+
+  return { entries, truncated };
+}
+
+/**
+ * Render a mode like `ls -l` does, e.g. `drwxr-xr-x`.
+ */
+export function formatMode(stat: ContainerFileStat): string {
+  const typeChar = stat.type === 'directory' ? 'd' : stat.type === 'symlink' ? 'l' : '-';
+  const bits = ['r', 'w', 'x'];
+  let perms = '';
+  for (let i = 8; i >= 0; i--) {
+    perms += stat.mode & (1 << i) ? bits[(8 - i) % 3] : '-';
+  }
+  return typeChar + perms;
+}
+
+/**
+ * Structured form of a file stat for tool results.
+ */
+export function toFileStatData(stat: ContainerFileStat): FileStatData {
+  return {
+    path: stat.path,
+    type: stat.type,
+    size: stat.size,
+    mode: stat.mode.toString(8).padStart(4, '0'),
+    uid: stat.uid,
+    gid: stat.gid,
+    mtime: stat.mtime?.toISOString(),
+    linkTarget: stat.linkTarget
+  };
+}
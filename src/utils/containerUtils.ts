@@ -0,0 +1,223 @@
+import type Docker from 'dockerode';
+import type { ContainerInfoData } from '../shared/schemas.js';
+
+/**
+ * Render `inspect` output as the text block get_container_info returns. The
+ * lifecycle tools use it too so every tool reports a container the same way.
+ */
+export function formatContainerInfo(info: Docker.ContainerInspectInfo): string {
+  const name = info.Name.replace(/^\//, '');
+  const state = info.State;
+  const config = info.Config;
+  const hostConfig = info.HostConfig;
+  const networkSettings = info.NetworkSettings;
+
+  let output = `Container Information: ${name}\n${'='.repeat(80)}\n\n`;
+
+  // Basic Info
+  output += `ID:      ${info.Id}\n`;
+  output += `Name:    ${name}\n`;
+  output += `Image:   ${config.Image}\n`;
+  output += `Created: ${info.Created}\n\n`;
+
+  // State
+  output += `State:\n`;
+  output += `  Status:     ${state.Status}\n`;
+  output += `  Running:    ${state.Running}\n`;
+  output += `  Paused:     ${state.Paused}\n`;
+  output += `  Restarting: ${state.Restarting}\n`;
+  output += `  Pid:        ${state.Pid}\n`;
+  output += `  Exit Code:  ${state.ExitCode}\n`;
+  if (state.Health) output += `  Health:     ${state.Health.Status}\n`;
+  if (state.StartedAt) output += `  Started:    ${state.StartedAt}\n`;
+  if (state.FinishedAt && state.FinishedAt !== '0001-01-01T00:00:00Z') {
+    output += `  Finished:   ${state.FinishedAt}\n`;
+  }
+  output += '\n';
+
+  // Network
+  output += `Network:\n`;
+  output += `  IP Address: ${networkSettings.IPAddress || 'none'}\n`;
+  output += `  Gateway:    ${networkSettings.Gateway || 'none'}\n`;
+
+  if (networkSettings.Ports && Object.keys(networkSettings.Ports).length > 0) {
+    output += `  Ports:\n`;
+    for (const [containerPort, hostBindings] of Object.entries(networkSettings.Ports)) {
+      if (hostBindings && Array.isArray(hostBindings)) {
+        for (const binding of hostBindings) {
+          output += `    ${binding.HostIp}:${binding.HostPort} -> ${containerPort}\n`;
+        }
+      } else {
+        output += `    ${containerPort} (not published)\n`;
+      }
+    }
+  }
+
+  if (networkSettings.Networks && Object.keys(networkSettings.Networks).length > 0) {
+    output += `  Networks:\n`;
+    for (const [networkName, networkInfo] of Object.entries(networkSettings.Networks)) {
+      output += `    ${networkName}: ${(networkInfo as any).IPAddress || 'no IP'}\n`;
+    }
+  }
+  output += '\n';
+
+  // Mounts/Volumes
+  if (info.Mounts && info.Mounts.length > 0) {
+    output += `Mounts:\n`;
+    for (const mount of info.Mounts) {
+      output += `  ${mount.Type}: ${mount.Source} -> ${mount.Destination}\n`;
+      if (mount.Mode) output += `    Mode: ${mount.Mode}\n`;
+    }
+    output += '\n';
+  }
+
+  // Environment Variables
+  if (config.Env && config.Env.length > 0) {
+    output += `Environment:\n`;
+    for (const env of config.Env) {
+      output += `  ${env}\n`;
+    }
+    output += '\n';
+  }
+
+  // Command
+  if (config.Cmd && Array.isArray(config.Cmd) && config.Cmd.length > 0) {
+    output += `Command: ${config.Cmd.join(' ')}\n`;
+  }
+  if (config.Entrypoint && Array.isArray(config.Entrypoint) && config.Entrypoint.length > 0) {
+    output += `Entrypoint: ${config.Entrypoint.join(' ')}\n`;
+  }
+  if (config.WorkingDir) {
+    output += `Working Dir: ${config.WorkingDir}\n`;
+  }
+  output += '\n';
+
+  // Resource Limits
+  output += `Resources:\n`;
+  if (hostConfig.Memory) output += `  Memory: ${(hostConfig.Memory / 1024 / 1024).toFixed(0)} MB\n`;
+  if (hostConfig.CpuShares) output += `  CPU Shares: ${hostConfig.CpuShares}\n`;
+  if (hostConfig.NanoCpus) output += `  CPU Limit: ${hostConfig.NanoCpus / 1000000000} cores\n`;
+
+  output += `\nRestart Policy: ${hostConfig.RestartPolicy?.Name || 'no'}`;
+  if (hostConfig.RestartPolicy?.MaximumRetryCount) {
+    output += ` (max: ${hostConfig.RestartPolicy.MaximumRetryCount})`;
+  }
+
+  return output;
+}
+
+/**
+ * The structured counterpart of formatContainerInfo.
+ */
+export function toContainerInfo(info: Docker.ContainerInspectInfo): ContainerInfoData {
+  const { State: state, Config: config, HostConfig: hostConfig, NetworkSettings: networkSettings } = info;
+
+  const ports: ContainerInfoData['network']['ports'] = [];
+  for (const [containerPort, hostBindings] of Object.entries(networkSettings.Ports ?? {})) {
+    if (hostBindings && Array.isArray(hostBindings)) {
+      for (const binding of hostBindings) {
+        ports.push({ containerPort, hostIp: binding.HostIp, hostPort: binding.HostPort });
+      }
+    } else {
+      ports.push({ containerPort });
+    }
+  }
+
+  const networks: Record<string, string | undefined> = {};
+  for (const [networkName, networkInfo] of Object.entries(networkSettings.Networks ?? {})) {
+    networks[networkName] = (networkInfo as any).IPAddress || undefined;
+  }
+
+  return {
+    id: info.Id,
+    name: info.Name.replace(/^\//, ''),
+    image: config.Image,
+    created: info.Created,
+    state: {
+      status: state.Status,
+      running: state.Running,
+      paused: state.Paused,
+      restarting: state.Restarting,
+      pid: state.Pid,
+      exitCode: state.ExitCode,
+      health: state.Health?.Status,
+      startedAt: state.StartedAt || undefined,
+      finishedAt: state.FinishedAt && state.FinishedAt !== '0001-01-01T00:00:00Z' ? state.FinishedAt : undefined
+    },
+    network: {
+      ipAddress: networkSettings.IPAddress || undefined,
+      gateway: networkSettings.Gateway || undefined,
+      ports,
+      networks
+    },
+    mounts: (info.Mounts ?? []).map(mount => ({
+      type: mount.Type,
+      source: mount.Source,
+      destination: mount.Destination,
+      mode: mount.Mode || undefined
+    })),
+    env: config.Env ?? [],
+    command: Array.isArray(config.Cmd) ? config.Cmd : undefined,
+    entrypoint: Array.isArray(config.Entrypoint) ? config.Entrypoint : undefined,
+    workingDir: config.WorkingDir || undefined,
+    resources: {
+      memoryBytes: hostConfig.Memory || undefined,
+      cpuShares: hostConfig.CpuShares || undefined,
+      nanoCpus: hostConfig.NanoCpus || undefined
+    },
+    restartPolicy: {
+      name: hostConfig.RestartPolicy?.Name || 'no',
+      maximumRetryCount: hostConfig.RestartPolicy?.MaximumRetryCount || undefined
+    }
+  };
+}
+
+export type StartOutcome = 'running' | 'healthy' | 'unhealthy' | 'exited' | 'timeout';
+
+/**
+ * Docker answers 304 Not Modified when a container already is in the requested state.
+ */
+export function isNotModified(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { statusCode?: number }).statusCode === 304;
+}
+
+/**
+ * Poll a started container until its HEALTHCHECK reports healthy or
+ * unhealthy, it exits, or `timeout` seconds pass. Containers without a
+ * healthcheck are done as soon as they are running.
+ */
+export async function waitForHealthy(
+  container: Docker.Container,
+  timeout: number
+): Promise<{ info: Docker.ContainerInspectInfo; outcome: StartOutcome }> {
+  const deadline = Date.now() + timeout * 1000;
+
+  for (;;) {
+    const info = await container.inspect();
+    const { State: state } = info;
+
+    if (!state.Running && !state.Restarting) return { info, outcome: 'exited' };
+    if (state.Running && !state.Health) return { info, outcome: 'running' };
+    if (state.Health?.Status === 'healthy') return { info, outcome: 'healthy' };
+    if (state.Health?.Status === 'unhealthy') return { info, outcome: 'unhealthy' };
+    if (Date.now() >= deadline) return { info, outcome: 'timeout' };
+
+    await new Promise(resolve => setTimeout(resolve, 1000));
+  }
+}
+
+/**
+ * One line describing how a start or restart ended.
+ */
+export function describeStartOutcome(outcome: StartOutcome, timeout: number): string {
+  switch (outcome) {
+    case 'running': return 'Container is running (no healthcheck configured)';
+    case 'healthy': return 'Container is running and healthy';
+    case 'unhealthy': return 'Container is running but its healthcheck reports unhealthy';
+    case 'exited': return 'Container exited right after starting; check its logs';
+    case 'timeout':
+      return timeout > 0
+        ? `Container is running but did not become healthy within ${timeout}s`
+        : 'Container is running; its healthcheck has not reported yet';
+  }
+}
@@ -0,0 +1,59 @@
+import { StringDecoder } from 'string_decoder';
+
+export type DockerStreamType = 'stdout' | 'stderr';
+
+/**
+ * Incremental parser for Docker's multiplexed exec/attach stream format.
+ *
+ * Every frame starts with an 8 byte header (stream type, 3 padding bytes,
+ * uint32 BE payload size) followed by the payload. Frames can be split across
+ * chunks, so incomplete data is held back until the rest of it arrives.
+ */
+export class DockerStreamDemuxer {
+  private pending: Buffer = Buffer.alloc(0);
+  private decoders: Record<DockerStreamType, StringDecoder> = {
+    stdout: new StringDecoder('utf8'),
+    stderr: new StringDecoder('utf8')
+  };
+
+  constructor(private readonly onData: (stream: DockerStreamType, text: string) => void) {}
+
+  push(chunk: Buffer): void {
+    let data = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+    let offset = 0;
+
+    while (offset + 8 <= data.length) {
+      const streamType = data[offset];
+      const size = data.readUInt32BE(offset + 4);
+
+      if (offset + 8 + size > data.length) break;
+
+      const payload = data.subarray(offset + 8, offset + 8 + size);
+      if (streamType === 1) {
+        this.emit('stdout', payload);
+      } else if (streamType === 2) {
+        this.emit('stderr', payload);
+      }
+
+      offset += 8 + size;
+    }
+
+    this.pending = Buffer.from(data.subarray(offset));
+  }
+
+  /**
+   * Flush any partially decoded multi-byte characters.
+   */
+  end(): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const rest = this.decoders[stream].end();
+      if (rest) this.onData(stream, rest);
+    }
+    this.pending = Buffer.alloc(0);
+  }
+
+  private emit(stream: DockerStreamType, payload: Buffer): void {
+    const text = this.decoders[stream].write(payload);
+    if (text) this.onData(stream, text);
+  }
+}
@@ -17,4 +17,54 @@ export function generateSectionFilename(index: number, selector: string, format:
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const selectorHash = selector.replace(/[^a-zA-Z0-9]/g, '-').substring(0, 30);
   return `section-${index + 1}-${selectorHash}-${timestamp}.${format}`;
-}
\ No newline at end of file
+}
+
+/**
+ * Resolve a host path and make sure it lies inside one of the allowed root
+ * directories. Symlinks are resolved for the part of the path that exists,
+ * so a link cannot be used to escape a root. A dangling symlink is refused:
+ * writing through it would create its target wherever it points.
+ */
+export function resolveAllowedHostPath(hostPath: string, roots: string[]): string {
+  if (roots.length === 0) {
+    throw new Error('Host file transfer is disabled. Set MCP_HOST_TRANSFER_ROOTS to allow it.');
+  }
+
+  let resolved = path.resolve(hostPath);
+  let existing = resolved;
+  const missing: string[] = [];
+  // lstat, not exists: a dangling symlink must end the walk instead of counting as missing
+  while (!fs.lstatSync(existing, { throwIfNoEntry: false })) {
+    missing.unshift(path.basename(existing));
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    existing = parent;
+  }
+  let real: string;
+  try {
+    real = fs.realpathSync(existing);
+  } catch {
+    throw new Error(`Host path '${hostPath}' goes through a symlink that does not resolve (${existing})`);
+  }
+  resolved = path.join(real, ...missing);
+
+  for (const root of roots) {
+    const realRoot = fs.existsSync(root) ? fs.realpathSync(root) : path.resolve(root);
+    if (resolved === realRoot || resolved.startsWith(realRoot + path.sep)) {
+      return resolved;
+    }
+  }
+
+  throw new Error(`Host path '${hostPath}' is outside the allowed roots (${roots.join(', ')})`);
+}
+
+/**
+ * Total size in bytes of a file, or of all files below a directory. Symlinks are not followed.
+ */
+export function getHostPathSize(targetPath: string): number {
+  const stat = fs.lstatSync(targetPath);
+  if (!stat.isDirectory()) {
+    return stat.size;
+  }
+  return fs.readdirSync(targetPath).reduce((total, entry) => total + getHostPathSize(path.join(targetPath, entry)), 0);
+}
@@ -0,0 +1,50 @@
+import type { Job } from '../services/jobRegistry.js';
+import type { JobData } from '../shared/schemas.js';
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Render the status block shared by exec_start, exec_status and exec_kill.
+ */
+export function formatJobSummary(job: Job): string {
+  const end = job.finishedAt ?? new Date();
+  const stdoutTotal = job.output.stdout.dropped + job.output.stdout.text.length;
+  const stderrTotal = job.output.stderr.dropped + job.output.stderr.text.length;
+
+  let output = `Job:       ${job.id}\n`;
+  output += `Container: ${job.containerId}\n`;
+  output += `Command:   ${job.command}\n`;
+  output += `Status:    ${job.status}\n`;
+  output += `Started:   ${job.startedAt.toISOString()}\n`;
+  output += `Duration:  ${formatDuration(end.getTime() - job.startedAt.getTime())}\n`;
+  if (job.exitCode !== null) output += `Exit Code: ${job.exitCode}\n`;
+  if (job.error) output += `Error:     ${job.error}\n`;
+  output += `Output:    ${stdoutTotal} chars stdout, ${stderrTotal} chars stderr`;
+  return output;
+}
+
+/**
+ * The structured counterpart of formatJobSummary.
+ */
+export function toJobData(job: Job): JobData {
+  const end = job.finishedAt ?? new Date();
+  return {
+    id: job.id,
+    containerId: job.containerId,
+    command: job.command,
+    status: job.status,
+    exitCode: job.exitCode,
+    error: job.error,
+    startedAt: job.startedAt.toISOString(),
+    finishedAt: job.finishedAt?.toISOString(),
+    durationMs: end.getTime() - job.startedAt.getTime(),
+    stdoutChars: job.output.stdout.dropped + job.output.stdout.text.length,
+    stderrChars: job.output.stderr.dropped + job.output.stderr.text.length
+  };
+}
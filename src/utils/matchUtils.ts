@@ -0,0 +1,82 @@
+import { Script, createContext, runInContext, type Context } from 'vm';
+
+/**
+ * Convert a glob pattern (`*` and `?` wildcards) into an anchored regular expression.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+/**
+ * Split a comma separated environment variable into trimmed, non-empty entries.
+ */
+export function parseList(value: string | undefined): string[] {
+  if (!value) return [];
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// Longest regular expression accepted from clients
+export const MAX_PATTERN_LENGTH = 500;
+// Time one search may spend matching lines, in milliseconds
+const PATTERN_TIME_BUDGET = 2000;
+
+/**
+ * A regular expression supplied by a client, matched against lines of output.
+ *
+ * Patterns like `(a+)+$` backtrack for ages on the wrong input and would
+ * block the whole server, so matching runs in a VM context whose watchdog
+ * interrupts it once the search has used up its time budget; that fails the
+ * call instead. The budget is shared by all batches of one search.
+ */
+export class PatternMatcher {
+  private static readonly script = new Script('lines.map(line => regex.test(line))');
+  private readonly sandbox: Context;
+  private spent = 0;
+
+  constructor(readonly pattern: string, private readonly budget: number = PATTERN_TIME_BUDGET) {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      throw new Error(`Pattern is longer than ${MAX_PATTERN_LENGTH} characters`);
+    }
+    // Reports syntax errors here rather than inside the VM
+    new RegExp(pattern);
+    this.sandbox = createContext({ source: pattern });
+    runInContext('regex = new RegExp(source)', this.sandbox);
+  }
+
+  /**
+   * Whether each of `lines` matches.
+   */
+  matches(lines: string[]): boolean[] {
+    if (lines.length === 0) return [];
+    const remaining = this.budget - this.spent;
+    if (remaining <= 0) throw this.timeoutError();
+
+    this.sandbox.lines = lines;
+    const startedAt = performance.now();
+    try {
+      return Array.from(PatternMatcher.script.runInContext(this.sandbox, { timeout: Math.ceil(remaining) }) as boolean[]);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') throw this.timeoutError();
+      throw error;
+    } finally {
+      this.sandbox.lines = undefined;
+      this.spent += performance.now() - startedAt;
+    }
+  }
+
+  private timeoutError(): Error {
+    return new Error(`Matching /${this.pattern}/ took longer than ${this.budget / 1000}s; use a simpler pattern`);
+  }
+}
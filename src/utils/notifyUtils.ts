@@ -0,0 +1,100 @@
+import type { ToolExtra } from '../shared/types.js';
+import type { DockerStreamType } from './dockerStream.js';
+import type { Redactor } from '../services/redactor.js';
+
+// Largest amount of text sent in one notification; older buffered output is skipped
+const MAX_NOTIFICATION_BYTES = 8 * 1024;
+
+/**
+ * Streams command output to the client while a tool call is still running.
+ *
+ * Output is buffered per stream and sent at most once every `interval`
+ * milliseconds, complete lines only (the last partial line waits for the
+ * next flush or `close`, unless it alone fills a notification). Only the last
+ * `MAX_NOTIFICATION_BYTES` of a stream are kept between flushes. When the request carries a progress token the
+ * lines are sent as `notifications/progress` messages, otherwise as
+ * `notifications/message` log events. Secrets are masked per flush, so only
+ * values that span several flushes (private key blocks) can slip through.
+ * Notifications are best effort: a client that went away does not affect
+ * the command.
+ */
+export class OutputNotifier {
+  private buffers: Record<DockerStreamType, string> = { stdout: '', stderr: '' };
+  private skipped: Record<DockerStreamType, number> = { stdout: 0, stderr: 0 };
+  private timer?: NodeJS.Timeout;
+  private lines = 0;
+  private closed = false;
+
+  constructor(
+    private readonly extra: ToolExtra,
+    private readonly interval: number,
+    private readonly redactor: Redactor,
+    private readonly logger = 'exec'
+  ) {}
+
+  write(stream: DockerStreamType, text: string): void {
+    if (this.closed) return;
+    const buffer = this.buffers[stream] + text;
+    // Older output would be skipped when sending anyway; this keeps output without newlines from piling up
+    const overflow = buffer.length - MAX_NOTIFICATION_BYTES;
+    if (overflow > 0) {
+      this.skipped[stream] += Buffer.byteLength(buffer.slice(0, overflow));
+      this.buffers[stream] = buffer.slice(overflow);
+    } else {
+      this.buffers[stream] = buffer;
+    }
+    if (!this.timer) {
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.flush(false);
+      }, this.interval);
+    }
+  }
+
+  /**
+   * Send whatever is still buffered, including partial lines, and stop.
+   */
+  close(): void {
+    if (this.closed) return;
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.flush(true);
+    this.closed = true;
+  }
+
+  private flush(final: boolean): void {
+    for (const stream of ['stdout', 'stderr'] as const) {
+      const buffer = this.buffers[stream];
+      const end = final || buffer.length >= MAX_NOTIFICATION_BYTES ? buffer.length : buffer.lastIndexOf('\n') + 1;
+      if (end === 0) continue;
+
+      this.buffers[stream] = buffer.slice(end);
+      this.send(stream, buffer.slice(0, end));
+    }
+  }
+
+  private send(stream: DockerStreamType, text: string): void {
+    text = this.redactor.redact(text);
+    const data = Buffer.from(text, 'utf8');
+    const cut = Math.max(data.length - MAX_NOTIFICATION_BYTES, 0);
+    const skipped = this.skipped[stream] + cut;
+    this.skipped[stream] = 0;
+    if (skipped > 0) {
+      text = `[... ${skipped} bytes skipped ...]\n${data.subarray(cut).toString('utf8')}`;
+    }
+    this.lines += text.split('\n').filter(line => line.length > 0).length;
+
+    const progressToken = this.extra._meta?.progressToken;
+    const notification = progressToken !== undefined
+      ? {
+          method: 'notifications/progress' as const,
+          params: { progressToken, progress: this.lines, message: `[${stream}] ${text}` }
+        }
+      : {
+          method: 'notifications/message' as const,
+          params: { level: 'info' as const, logger: this.logger, data: { stream, text } }
+        };
+
+    this.extra.sendNotification(notification).catch(() => undefined);
+  }
+}
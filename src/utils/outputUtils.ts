@@ -0,0 +1,29 @@
+export interface TruncatedOutput {
+  text: string;
+  omittedBytes: number;
+}
+
+/**
+ * Keep the first `headBytes` and last `tailBytes` of the output and replace
+ * everything in between with a marker saying how much was left out.
+ */
+export function truncateMiddle(output: string, headBytes: number, tailBytes: number): TruncatedOutput {
+  const data = Buffer.from(output, 'utf8');
+  if (data.length <= headBytes + tailBytes) {
+    return { text: output, omittedBytes: 0 };
+  }
+
+  const omittedBytes = data.length - headBytes - tailBytes;
+  const head = data.subarray(0, headBytes).toString('utf8');
+  const tail = tailBytes > 0 ? data.subarray(data.length - tailBytes).toString('utf8') : '';
+  return {
+    text: `${head}\n[... ${omittedBytes} bytes omitted ...]\n${tail}`,
+    omittedBytes
+  };
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KiB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MiB`;
+}
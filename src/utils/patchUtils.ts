@@ -0,0 +1,151 @@
+import { applyPatch, createTwoFilesPatch, parsePatch, type StructuredPatch } from 'diff';
+
+export interface SearchReplaceEdit {
+  search: string;
+  replace: string;
+  replaceAll?: boolean;
+}
+
+export interface EditReport {
+  /** 1-based index of the hunk or search/replace block */
+  index: number;
+  applied: boolean;
+  detail: string;
+}
+
+export interface EditOutcome {
+  content: string;
+  reports: EditReport[];
+}
+
+const ignoreWhitespace = (_lineNumber: number, line: string, _operation: string, patchContent: string): boolean =>
+  line.trim() === patchContent.trim();
+
+/**
+ * Apply a single-file unified diff hunk by hunk.
+ *
+ * Each hunk is tried exactly first, then with up to `fuzzFactor` mismatching
+ * context lines, then additionally ignoring whitespace differences. Hunks
+ * that still do not fit are reported as failed and skipped; the line offset
+ * of the hunks that did apply is carried over to the following hunks.
+ */
+export function applyUnifiedDiff(source: string, diffText: string, fuzzFactor: number): EditOutcome {
+  const patches = parsePatch(diffText).filter(patch => patch.hunks.length > 0);
+  if (patches.length === 0) {
+    throw new Error('The diff does not contain any hunks');
+  }
+  if (patches.length > 1) {
+    throw new Error(`The diff changes ${patches.length} files; edit_file applies a diff to one file at a time`);
+  }
+
+  const patch = patches[0];
+  const reports: EditReport[] = [];
+  let content = source;
+  let delta = 0;
+
+  patch.hunks.forEach((hunk, i) => {
+    const shifted = { ...hunk, oldStart: hunk.oldStart + delta, newStart: hunk.newStart + delta };
+    const single: StructuredPatch = { ...patch, hunks: [shifted] };
+    const location = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+
+    const attempts: Array<{ options: Parameters<typeof applyPatch>[2]; detail: string }> = [
+      { options: {}, detail: 'applied' },
+      { options: { fuzzFactor }, detail: `applied with fuzz (up to ${fuzzFactor} context lines differ)` },
+      { options: { fuzzFactor, compareLine: ignoreWhitespace }, detail: 'applied ignoring whitespace differences' }
+    ];
+
+    for (const attempt of attempts) {
+      const result = applyPatch(content, single, attempt.options);
+      if (result !== false) {
+        content = result;
+        delta += hunk.newLines - hunk.oldLines;
+        reports.push({ index: i + 1, applied: true, detail: `${location} ${attempt.detail}` });
+        return;
+      }
+    }
+
+    reports.push({ index: i + 1, applied: false, detail: `${location} does not match the file` });
+  });
+
+  return { content, reports };
+}
+
+/**
+ * Find `search` in `lines` comparing trimmed lines. Returns the start indexes of all matches.
+ */
+function findTrimmedLines(lines: string[], search: string[]): number[] {
+  const matches: number[] = [];
+  for (let start = 0; start + search.length <= lines.length; start++) {
+    if (search.every((line, offset) => lines[start + offset].trim() === line.trim())) {
+      matches.push(start);
+    }
+  }
+  return matches;
+}
+
+/**
+ * Apply exact search/replace blocks in order. A block whose search text is not
+ * found verbatim is retried line by line ignoring indentation and trailing
+ * whitespace. A search text that matches more than once is refused unless
+ * `replaceAll` is set.
+ */
+export function applySearchReplace(source: string, edits: SearchReplaceEdit[]): EditOutcome {
+  const reports: EditReport[] = [];
+  let content = source;
+
+  edits.forEach((edit, i) => {
+    const index = i + 1;
+    if (!edit.search) {
+      reports.push({ index, applied: false, detail: 'search text is empty' });
+      return;
+    }
+
+    const occurrences = content.split(edit.search).length - 1;
+    if (occurrences === 1 || (occurrences > 1 && edit.replaceAll)) {
+      content = content.split(edit.search).join(edit.replace);
+      reports.push({ index, applied: true, detail: `replaced ${occurrences} exact match${occurrences > 1 ? 'es' : ''}` });
+      return;
+    }
+    if (occurrences > 1) {
+      reports.push({ index, applied: false, detail: `search text matches ${occurrences} times; make it unique or set replace_all` });
+      return;
+    }
+
+    const lines = content.split('\n');
+    const searchLines = edit.search.replace(/\n$/, '').split('\n');
+    const matches = findTrimmedLines(lines, searchLines);
+    if (matches.length === 0) {
+      reports.push({ index, applied: false, detail: 'search text not found' });
+      return;
+    }
+    if (matches.length > 1 && !edit.replaceAll) {
+      reports.push({ index, applied: false, detail: `search text matches ${matches.length} times ignoring whitespace; make it unique or set replace_all` });
+      return;
+    }
+
+    const replaceLines = edit.replace.replace(/\n$/, '').split('\n');
+    // Replace from the end so earlier match indexes stay valid
+    for (const start of [...matches].reverse()) {
+      lines.splice(start, searchLines.length, ...replaceLines);
+    }
+    content = lines.join('\n');
+    reports.push({
+      index,
+      applied: true,
+      detail: `replaced ${matches.length} match${matches.length > 1 ? 'es' : ''} ignoring whitespace (line ${matches.map(start => start + 1).join(', ')})`
+    });
+  });
+
+  return { content, reports };
+}
+
+/**
+ * Unified diff between two versions of a file for previews.
+ */
+export function createDiffPreview(filePath: string, before: string, after: string): string {
+  return createTwoFilesPatch(`a${filePath}`, `b${filePath}`, before, after, undefined, undefined, { context: 3 })
+    .split('\n')
+    .filter(line => !line.startsWith('====='))
+    .join('\n')
+    .trim();
+}
@@ -0,0 +1,75 @@
+import type { ContainerRuntime, RuntimeContainer } from '../services/containerRuntime.js';
+
+/**
+ * Environment variable name used to tag every process started for a job.
+ * Children inherit the environment, so the tag identifies the whole process
+ * tree, including processes that were re-parented after a double fork.
+ *
+ * Tags can be nested with dots (`<session>.<run>`): signalling a tag also
+ * reaches every process tagged with one of its sub-tags.
+ */
+export const PROCESS_TAG_VAR = 'MCP_JOB_ID';
+
+// Walk /proc and signal every process whose environment carries the tag.
+// Only relies on sh, tr and grep so it works on busybox based images as well.
+const KILL_SCRIPT = [
+  'sig="$1"; pattern="$2"; count=0',
+  'for p in /proc/[0-9]*; do',
+  '  pid="${p#/proc/}"',
+  '  [ "$pid" = "$$" ] && continue',
+  '  if tr \'\\0\' \'\\n\' < "$p/environ" 2>/dev/null | grep -qE "$pattern"; then',
+  '    kill -"$sig" "$pid" 2>/dev/null && count=$((count + 1))',
+  '  fi',
+  'done',
+  'echo "$count"'
+].join('\n');
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export interface ContainerCommandResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+}
+
+/**
+ * Run a command (argv, no shell) in a container and collect its output.
+ */
+export async function runContainerCommand(
+  container: RuntimeContainer,
+  cmd: string[],
+  user?: string
+): Promise<ContainerCommandResult> {
+  let stdout = '';
+  let stderr = '';
+  const exec = await container.exec({ cmd, user }, (streamType, text) => {
+    if (streamType === 'stdout') {
+      stdout += text;
+    } else {
+      stderr += text;
+    }
+  });
+  const exitCode = await exec.exited;
+  return { stdout, stderr, exitCode };
+}
+
+/**
+ * Send a signal to every process in the container tagged with the given ID.
+ * Returns the number of processes that were signalled.
+ */
+export async function signalTaggedProcesses(
+  runtime: ContainerRuntime,
+  containerId: string,
+  tagValue: string,
+  signal: string = 'TERM'
+): Promise<number> {
+  const { stdout } = await runContainerCommand(
+    runtime.getContainer(containerId),
+    ['/bin/sh', '-c', KILL_SCRIPT, 'sh', signal, `^${PROCESS_TAG_VAR}=${escapeRegExp(tagValue)}(\\.|$)`],
+    '0'
+  );
+  const count = parseInt(stdout.trim(), 10);
+  return Number.isNaN(count) ? 0 : count;
+}
@@ -1,6 +1,14 @@
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
-export function createSuccessResponse(data: any): CallToolResult {
+/**
+ * Successful tool result: the readable text block plus the same data as
+ * `structuredContent`, which must match the tool's output schema. Dates
+ * become ISO strings and undefined fields are dropped on the way.
+ *
+ * `isError` marks results that carry data but still count as a failure,
+ * e.g. a command that exited non-zero when the caller asked for that.
+ */
+export function createSuccessResponse(text: string, data: Record<string, unknown>, isError = false): CallToolResult {
   // Defensive: never include raw base64 image data in responses
   const sanitized = (() => {
     try {
@@ -26,27 +34,43 @@ export function createSuccessResponse(data: any): CallToolResult {
     content: [
       {
         type: 'text',
-        text: JSON.stringify(sanitized)
+        text
       }
-    ]
+    ],
+    structuredContent: sanitized,
+    ...(isError ? { isError: true } : {})
   };
 }
 
-export function createErrorResponse(error: string | Error): CallToolResult {
-  const errorMessage = error instanceof Error ? error.message : error;
+/**
+ * Failed tool result (Docker errors, refused requests). `prefix` says what
+ * was being done, e.g. `Error reading file`.
+ */
+export function createErrorResponse(error: unknown, prefix?: string): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : typeof error === 'string' ? error : 'Unknown error';
   return {
     content: [
       {
         type: 'text',
-        text: JSON.stringify({
-          success: false,
-          error: errorMessage
-        })
+        text: prefix ? `${prefix}: ${errorMessage}` : errorMessage
       }
-    ]
+    ],
+    isError: true
   };
 }
 
+/**
+ * Structured content of a tool result, for reusing a tool elsewhere (e.g. to
+ * serve a resource). Throws with the result text when the tool failed.
+ */
+export function resultData(result: CallToolResult): Record<string, any> {
+  if (result.isError || !result.structuredContent) {
+    const block = result.content.find(item => item.type === 'text');
+    throw new Error(block?.type === 'text' ? block.text : 'Tool call failed');
+  }
+  return result.structuredContent;
+}
+
 /**
  * Sanitize text by removing non-printable characters, zero-width chars,
  * collapsing whitespace sequences, converting NBSP to space, and trimming.
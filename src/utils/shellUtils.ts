@@ -0,0 +1,24 @@
+import type { ShellSession } from '../services/shellSessions.js';
+import type { ShellSessionData } from '../shared/schemas.js';
+
+/**
+ * Quote a string so a POSIX shell treats it as a single literal word.
+ */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Structured form of a shell session for tool results.
+ */
+export function toShellSessionData(session: ShellSession): ShellSessionData {
+  return {
+    id: session.id,
+    containerId: session.containerId,
+    user: session.user,
+    cwd: session.cwd,
+    openedAt: session.openedAt.toISOString(),
+    lastUsedAt: session.lastUsedAt.toISOString(),
+    commandCount: session.commandCount
+  };
+}
@@ -0,0 +1,144 @@
+import type Docker from 'dockerode';
+import type { PolicyTarget } from '../services/containerPolicy.js';
+
+export const SNAPSHOT_LABEL = 'mcp.snapshot';
+export const SNAPSHOT_CONTAINER_LABEL = 'mcp.snapshot.container';
+export const SNAPSHOT_CONTAINER_ID_LABEL = 'mcp.snapshot.container-id';
+export const SNAPSHOT_NOTE_LABEL = 'mcp.snapshot.note';
+export const SNAPSHOT_CREATED_LABEL = 'mcp.snapshot.created';
+
+export interface SnapshotData {
+  image: string;
+  id: string;
+  container: string;
+  containerId: string;
+  note?: string;
+  created: string;
+  size: number;
+}
+
+/**
+ * Image repository snapshots of a container are stored in, e.g. `mcp-snapshot/dev-1`.
+ */
+export function snapshotRepository(containerName: string): string {
+  const name = containerName.toLowerCase().replace(/[^a-z0-9._-]+/g, '-').replace(/^[._-]+/, '') || 'container';
+  return `mcp-snapshot/${name}`;
+}
+
+/**
+ * Default snapshot tag: the time of the snapshot, e.g. `20261019-142501`.
+ */
+export function snapshotTag(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+}
+
+export function toSnapshotData(image: Docker.ImageInfo): SnapshotData {
+  const labels = image.Labels ?? {};
+  return {
+    image: (image.RepoTags ?? []).find(tag => tag !== '<none>:<none>') ?? image.Id,
+    id: image.Id,
+    container: labels[SNAPSHOT_CONTAINER_LABEL] ?? '',
+    containerId: labels[SNAPSHOT_CONTAINER_ID_LABEL] ?? '',
+    note: labels[SNAPSHOT_NOTE_LABEL] || undefined,
+    created: labels[SNAPSHOT_CREATED_LABEL] ?? new Date(image.Created * 1000).toISOString(),
+    size: image.Size
+  };
+}
+
+/**
+ * Policy target for the container a snapshot was taken of. Committed images
+ * inherit the container's labels, so label and compose project rules apply too.
+ */
+export function snapshotPolicyTarget(labels: Record<string, string>): PolicyTarget {
+  return {
+    id: labels[SNAPSHOT_CONTAINER_ID_LABEL] ?? '',
+    names: [labels[SNAPSHOT_CONTAINER_LABEL] ?? ''],
+    labels
+  };
+}
+
+/**
+ * Options to create a copy of a container from another image: the
+ * container's configuration, host configuration (binds, port bindings,
+ * restart policy, resources) and the network it was created in. Anonymous
+ * volumes are mounted by name so their data carries over.
+ */
+export function recreateOptions(info: Docker.ContainerInspectInfo, image: string): Docker.ContainerCreateOptions {
+  const config = info.Config;
+  const hostConfig = { ...info.HostConfig } as Docker.HostConfig;
+  const shortId = info.Id.slice(0, 12);
+
+  // Volumes the image declared get new anonymous volumes unless mounted explicitly
+  const explicitTargets = new Set([
+    ...(hostConfig.Binds ?? []).map(bind => bind.split(':')[1]),
+    ...(hostConfig.Mounts ?? []).map(mount => mount.Target)
+  ]);
+  const anonymous = (info.Mounts ?? []).filter(mount =>
+    mount.Type === 'volume' && mount.Name && !explicitTargets.has(mount.Destination)
+  );
+  if (anonymous.length > 0) {
+    hostConfig.Mounts = [
+      ...(hostConfig.Mounts ?? []),
+      ...anonymous.map(mount => ({ Type: 'volume' as const, Source: mount.Name!, Target: mount.Destination, ReadOnly: !mount.RW }))
+    ];
+  }
+
+  // Inspect merges the snapshot image's labels into the container's; the new container is no snapshot
+  const labels = { ...config.Labels };
+  for (const label of [SNAPSHOT_LABEL, SNAPSHOT_CONTAINER_LABEL, SNAPSHOT_CONTAINER_ID_LABEL, SNAPSHOT_NOTE_LABEL, SNAPSHOT_CREATED_LABEL]) {
+    delete labels[label];
+  }
+
+  const network = primaryNetwork(info);
+  const endpoint = info.NetworkSettings?.Networks?.[network];
+  return {
+    name: info.Name.replace(/^\//, ''),
+    Image: image,
+    // The default hostname is the old container's short ID; let the new one get its own
+    Hostname: config.Hostname === shortId ? undefined : config.Hostname,
+    Domainname: config.Domainname,
+    User: config.User,
+    Env: config.Env,
+    Cmd: config.Cmd,
+    Entrypoint: config.Entrypoint,
+    WorkingDir: config.WorkingDir,
+    Labels: labels,
+    ExposedPorts: config.ExposedPorts,
+    Volumes: config.Volumes,
+    Tty: config.Tty,
+    OpenStdin: config.OpenStdin,
+    StdinOnce: config.StdinOnce,
+    AttachStdin: config.AttachStdin,
+    AttachStdout: config.AttachStdout,
+    AttachStderr: config.AttachStderr,
+    StopSignal: (config as { StopSignal?: string }).StopSignal,
+    Healthcheck: (config as { Healthcheck?: Docker.HealthConfig }).Healthcheck,
+    HostConfig: hostConfig,
+    NetworkingConfig: endpoint ? { EndpointsConfig: { [network]: endpointConfig(endpoint, shortId) } } : undefined
+  };
+}
+
+/**
+ * Networks other than the one the container is created in, to connect afterwards.
+ */
+export function extraNetworks(info: Docker.ContainerInspectInfo): Array<{ name: string; config: Docker.EndpointSettings }> {
+  const shortId = info.Id.slice(0, 12);
+  return Object.entries(info.NetworkSettings?.Networks ?? {})
+    .filter(([name]) => name !== primaryNetwork(info))
+    .map(([name, endpoint]) => ({ name, config: endpointConfig(endpoint, shortId) }));
+}
+
+// Network the container is created in; `default` is the bridge network
+function primaryNetwork(info: Docker.ContainerInspectInfo): string {
+  const mode = info.HostConfig.NetworkMode ?? 'default';
+  return mode === 'default' ? 'bridge' : mode;
+}
+
+function endpointConfig(endpoint: Docker.EndpointSettings, shortId: string): Docker.EndpointSettings {
+  return {
+    IPAMConfig: endpoint.IPAMConfig,
+    Links: endpoint.Links,
+    // Docker adds the short container ID itself
+    Aliases: endpoint.Aliases?.filter(alias => alias !== shortId)
+  };
+}
@@ -0,0 +1,75 @@
+import type Docker from 'dockerode';
+import { formatBytes } from './outputUtils.js';
+
+export interface ContainerUsage {
+  cpuPercent: number;
+  onlineCpus: number;
+  memoryUsed: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  networkRx: number;
+  networkTx: number;
+  blockRead: number;
+  blockWrite: number;
+  pids?: number;
+  pidsLimit?: number;
+}
+
+/**
+ * Compute usage from a one-shot stats sample the way `docker stats` does:
+ * CPU % from the delta to the previous sample, memory without the page cache.
+ */
+export function summarizeStats(stats: Docker.ContainerStats): ContainerUsage {
+  const cpu = stats.cpu_stats;
+  const precpu = stats.precpu_stats;
+  const onlineCpus = cpu.online_cpus || cpu.cpu_usage.percpu_usage?.length || 1;
+  const cpuDelta = cpu.cpu_usage.total_usage - (precpu?.cpu_usage?.total_usage ?? 0);
+  const systemDelta = (cpu.system_cpu_usage ?? 0) - (precpu?.system_cpu_usage ?? 0);
+  const cpuPercent = cpuDelta > 0 && systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+  const memory = stats.memory_stats;
+  // cgroup v1 reports the page cache as total_inactive_file, cgroup v2 as inactive_file
+  const cache = memory.stats?.total_inactive_file ?? memory.stats?.inactive_file ?? 0;
+  const memoryUsed = Math.max(0, (memory.usage ?? 0) - cache);
+  const memoryLimit = memory.limit ?? 0;
+
+  let networkRx = 0;
+  let networkTx = 0;
+  for (const network of Object.values(stats.networks ?? {})) {
+    networkRx += network.rx_bytes;
+    networkTx += network.tx_bytes;
+  }
+
+  let blockRead = 0;
+  let blockWrite = 0;
+  for (const entry of stats.blkio_stats?.io_service_bytes_recursive ?? []) {
+    const op = entry.op.toLowerCase();
+    if (op === 'read') blockRead += entry.value;
+    if (op === 'write') blockWrite += entry.value;
+  }
+
+  return {
+    cpuPercent,
+    onlineCpus,
+    memoryUsed,
+    memoryLimit,
+    memoryPercent: memoryLimit > 0 ? (memoryUsed / memoryLimit) * 100 : 0,
+    networkRx,
+    networkTx,
+    blockRead,
+    blockWrite,
+    pids: stats.pids_stats?.current,
+    pidsLimit: stats.pids_stats?.limit
+  };
+}
+
+export function formatUsage(usage: ContainerUsage): string {
+  let output = `CPU:       ${usage.cpuPercent.toFixed(2)}% (${usage.onlineCpus} CPU${usage.onlineCpus === 1 ? '' : 's'})\n`;
+  output += `Memory:    ${formatBytes(usage.memoryUsed)} / ${formatBytes(usage.memoryLimit)} (${usage.memoryPercent.toFixed(1)}%)\n`;
+  output += `Net I/O:   ${formatBytes(usage.networkRx)} received / ${formatBytes(usage.networkTx)} sent\n`;
+  output += `Block I/O: ${formatBytes(usage.blockRead)} read / ${formatBytes(usage.blockWrite)} written\n`;
+  if (usage.pids !== undefined) {
+    output += `PIDs:      ${usage.pids}${usage.pidsLimit ? ` / ${usage.pidsLimit}` : ''}\n`;
+  }
+  return output;
+}
@@ -0,0 +1,19 @@
+/**
+ * Parse a time given as ISO timestamp, Unix seconds or a duration before now
+ * (`30s`, `10m`, `2h`, `1d`) into Unix seconds.
+ */
+export function parseTime(value: string, name: string): number {
+  const relative = value.trim().match(/^(\d+)\s*([smhd])$/);
+  if (relative) {
+    const unit = { s: 1, m: 60, h: 3600, d: 86400 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+    return Math.floor(Date.now() / 1000) - parseInt(relative[1], 10) * unit;
+  }
+  if (/^\d+(\.\d+)?$/.test(value.trim())) {
+    return Math.floor(parseFloat(value));
+  }
+  const parsed = Date.parse(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid ${name} time '${value}'`);
+  }
+  return Math.floor(parsed / 1000);
+}
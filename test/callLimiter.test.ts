@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CallLimiter, LimitExceededError } from '../src/services/callLimiter.js';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+describe('CallLimiter', () => {
+  it('limits calls per container and grants waiters when a slot frees', async () => {
+    const limiter = new CallLimiter({ maxPerContainer: 1, rate: 0 });
+    const release = await limiter.acquire({ containers: ['h/app'] });
+
+    let granted = false;
+    const waiting = limiter.acquire({ containers: ['h/app'] }).then(next => {
+      granted = true;
+      return next;
+    });
+    await tick();
+    assert.equal(granted, false);
+    assert.equal(limiter.state().queued, 1);
+
+    release();
+    (await waiting)();
+    assert.equal(granted, true);
+    assert.equal(limiter.state().active, 0);
+  });
+
+  it('does not let a waiting call hold up other containers', async () => {
+    const limiter = new CallLimiter({ maxPerContainer: 1, rate: 0 });
+    const release = await limiter.acquire({ containers: ['h/app'] });
+    const waiting = limiter.acquire({ containers: ['h/app'] });
+
+    const other = await limiter.acquire({ containers: ['h/db'] });
+    other();
+    release();
+    (await waiting)();
+  });
+
+  it('keeps later calls behind a waiting call for the same container', async () => {
+    const limiter = new CallLimiter({ maxPerContainer: 1, rate: 0 });
+    const order: string[] = [];
+    const app = await limiter.acquire({ containers: ['h/app'] });
+    const db = await limiter.acquire({ containers: ['h/db'] });
+
+    const both = limiter.acquire({ containers: ['h/app', 'h/db'] }).then(next => {
+      order.push('both');
+      return next;
+    });
+    app();
+    // h/app is free, but the call waiting for it and h/db comes first
+    const later = limiter.acquire({ containers: ['h/app'] }).then(next => {
+      order.push('later');
+      return next;
+    });
+    await tick();
+    assert.deepEqual(order, []);
+
+    db();
+    (await both)();
+    (await later)();
+    assert.deepEqual(order, ['both', 'later']);
+  });
+
+  it('turns calls away after maxWait', async () => {
+    const limiter = new CallLimiter({ maxPerContainer: 1, maxWait: 0.05, rate: 0 });
+    const release = await limiter.acquire({ containers: ['h/app'] });
+    await assert.rejects(limiter.acquire({ containers: ['h/app'] }), LimitExceededError);
+    release();
+    assert.equal(limiter.state().queued, 0);
+  });
+
+  it('rate limits each caller separately', () => {
+    const limiter = new CallLimiter({ rate: 60, burst: 2 });
+    limiter.admit('a');
+    limiter.admit('a');
+    assert.throws(() => limiter.admit('a'), (error: unknown) =>
+      error instanceof LimitExceededError && error.retryAfter >= 1
+    );
+    limiter.admit('b');
+  });
+});
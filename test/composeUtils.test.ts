@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseServiceTarget } from '../src/utils/composeUtils.js';
+
+describe('parseServiceTarget', () => {
+  it('parses project/service', () => {
+    assert.deepEqual(parseServiceTarget('shop/api'), { project: 'shop', service: 'api', index: undefined });
+  });
+
+  it('parses a replica index', () => {
+    assert.deepEqual(parseServiceTarget('shop/worker#2'), { project: 'shop', service: 'worker', index: 2 });
+  });
+
+  it('leaves container names and IDs alone', () => {
+    for (const value of ['shop-api-1', '3f2a9c1b7d4e', '/shop-api-1', 'a/b/c', 'shop/api#x']) {
+      assert.equal(parseServiceTarget(value), undefined, value);
+    }
+  });
+});
@@ -0,0 +1,104 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Readable } from 'stream';
+import { LocalRuntime } from '../src/services/localRuntime.js';
+import type { RuntimeContainer } from '../src/services/containerRuntime.js';
+
+async function run(container: RuntimeContainer, cmd: string[]): Promise<{ stdout: string; exitCode: number | null }> {
+  let stdout = '';
+  const exec = await container.exec({ cmd }, (stream, text) => {
+    if (stream === 'stdout') stdout += text;
+  });
+  const exitCode = await exec.exited;
+  return { stdout, exitCode };
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+describe('LocalRuntime', () => {
+  let dir: string;
+  let runtime: LocalRuntime;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'local-runtime-'));
+    for (const name of ['app', 'copy']) {
+      fs.mkdirSync(path.join(dir, name, 'src'), { recursive: true });
+    }
+    fs.writeFileSync(path.join(dir, 'app', 'src', 'main.txt'), 'hello\n');
+    fs.writeFileSync(path.join(dir, 'app', 'README'), 'readme\n');
+    runtime = new LocalRuntime({
+      app: { root: path.join(dir, 'app'), labels: { team: 'web', tier: 'front' } },
+      copy: { root: path.join(dir, 'copy'), labels: { team: 'data' } }
+    });
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('lists containers filtered by label and name', async () => {
+    const names = async (filters: Record<string, string[]>) =>
+      (await runtime.listContainers({ filters })).map(info => info.Names[0]);
+
+    assert.deepEqual(await names({}), ['/app', '/copy']);
+    assert.deepEqual(await names({ label: ['team=web'] }), ['/app']);
+    assert.deepEqual(await names({ label: ['team'] }), ['/app', '/copy']);
+    assert.deepEqual(await names({ label: ['team', 'tier=back'] }), []);
+    assert.deepEqual(await names({ name: ['cop'] }), ['/copy']);
+    await assert.rejects(runtime.listContainers({ filters: { status: ['running'] } }), /not supported/);
+  });
+
+  it('finds containers by name or ID prefix and reports missing ones as 404', async () => {
+    const app = runtime.getContainer('app');
+    assert.equal(runtime.getContainer(app.id.slice(0, 12)).id, app.id);
+    await assert.rejects(runtime.getContainer('nope').inspect(), (error: unknown) =>
+      (error as { statusCode?: number }).statusCode === 404
+    );
+  });
+
+  it('runs commands in the working directory and returns their exit codes', async () => {
+    const app = runtime.getContainer('app');
+    assert.deepEqual(await run(app, ['cat', 'src/main.txt']), { stdout: 'hello\n', exitCode: 0 });
+    assert.equal((await run(app, ['sh', '-c', 'exit 3'])).exitCode, 3);
+    assert.equal((await run(app, ['sh', '-c', 'kill -TERM $$'])).exitCode, 128 + os.constants.signals.SIGTERM);
+    await assert.rejects(app.exec({ cmd: ['no-such-command-here'] }, () => undefined), /executable file not found/);
+  });
+
+  it('passes stdin to commands', async () => {
+    let stdout = '';
+    const exec = await runtime.getContainer('app').exec({ cmd: ['cat'], stdin: true }, (_, text) => {
+      stdout += text;
+    });
+    exec.stdin!.end('piped');
+    assert.equal(await exec.exited, 0);
+    assert.equal(stdout, 'piped');
+  });
+
+  it('copies a directory between containers through archives', async () => {
+    const archive = await runtime.getContainer('app').getArchive('/src');
+    await runtime.getContainer('copy').putArchive(archive, { path: '/' });
+    assert.equal(fs.readFileSync(path.join(dir, 'copy', 'src', 'main.txt'), 'utf8'), 'hello\n');
+  });
+
+  it('copies a single file as an archive buffer', async () => {
+    const archive = await readAll(await runtime.getContainer('app').getArchive('/README'));
+    await runtime.getContainer('copy').putArchive(archive, { path: '/src' });
+    assert.equal(fs.readFileSync(path.join(dir, 'copy', 'src', 'README'), 'utf8'), 'readme\n');
+  });
+
+  it('keeps paths inside the container root', async () => {
+    const archive = await readAll(await runtime.getContainer('copy').getArchive('/../../src'));
+    assert.ok(archive.length > 0);
+    await assert.rejects(runtime.getContainer('app').getArchive('/missing'), (error: unknown) =>
+      (error as { statusCode?: number }).statusCode === 404
+    );
+    await assert.rejects(runtime.getContainer('copy').putArchive(Buffer.alloc(0), { path: '/src/main.txt' }), /not a directory/);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MAX_PATTERN_LENGTH, PatternMatcher, matchesGlob } from '../src/utils/matchUtils.js';
+
+describe('matchesGlob', () => {
+  it('matches wildcards and escapes everything else', () => {
+    assert.equal(matchesGlob('web-1', 'web-*'), true);
+    assert.equal(matchesGlob('web.1', 'web?1'), true);
+    assert.equal(matchesGlob('webx1', 'web.1'), false);
+  });
+});
+
+describe('PatternMatcher', () => {
+  it('tells which lines match', () => {
+    const matcher = new PatternMatcher('ERROR|panic');
+    assert.deepEqual(matcher.matches(['ok', 'ERROR: disk full', 'panic: nil']), [false, true, true]);
+    assert.deepEqual(matcher.matches([]), []);
+  });
+
+  it('refuses long and invalid patterns', () => {
+    assert.throws(() => new PatternMatcher('a'.repeat(MAX_PATTERN_LENGTH + 1)), /longer than/);
+    assert.throws(() => new PatternMatcher('(unclosed'), SyntaxError);
+  });
+
+  it('fails instead of hanging on catastrophic backtracking', () => {
+    const matcher = new PatternMatcher('^(a+)+$', 200);
+    const startedAt = Date.now();
+    assert.throws(() => matcher.matches([`${'a'.repeat(40)}b`]), /took longer than 0.2s/);
+    assert.ok(Date.now() - startedAt < 5000);
+    // The budget is used up for the rest of the search
+    assert.throws(() => matcher.matches(['a']), /took longer/);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applySearchReplace, applyUnifiedDiff } from '../src/utils/patchUtils.js';
+
+const source = ['function greet() {', '  return "hello";', '}', '', 'greet();', ''].join('\n');
+
+describe('applyUnifiedDiff', () => {
+  it('applies a hunk', () => {
+    const diff = [
+      '--- a/greet.js',
+      '+++ b/greet.js',
+      '@@ -1,3 +1,3 @@',
+      ' function greet() {',
+      '-  return "hello";',
+      '+  return "hi";',
+      ' }',
+      ''
+    ].join('\n');
+    const { content, reports } = applyUnifiedDiff(source, diff, 2);
+    assert.equal(content, source.replace('"hello"', '"hi"'));
+    assert.equal(reports[0].applied, true);
+  });
+
+  it('reports hunks that do not match and keeps the others', () => {
+    const diff = [
+      '--- a/greet.js',
+      '+++ b/greet.js',
+      '@@ -1,2 +1,2 @@',
+      '-function missing() {',
+      '+function other() {',
+      '   return "nope";',
+      '@@ -5,1 +5,1 @@',
+      '-greet();',
+      '+greet(); greet();',
+      ''
+    ].join('\n');
+    const { content, reports } = applyUnifiedDiff(source, diff, 0);
+    assert.deepEqual(reports.map(report => report.applied), [false, true]);
+    assert.equal(content, source.replace('greet();\n', 'greet(); greet();\n'));
+  });
+
+  it('refuses diffs for several files', () => {
+    const diff = ['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-a', '+b', '--- a/y', '+++ b/y', '@@ -1 +1 @@', '-a', '+b', ''].join('\n');
+    assert.throws(() => applyUnifiedDiff('a\n', diff, 0), /2 files/);
+  });
+});
+
+describe('applySearchReplace', () => {
+  it('replaces a unique match', () => {
+    const { content, reports } = applySearchReplace(source, [{ search: 'return "hello"', replace: 'return "hey"' }]);
+    assert.match(content, /return "hey"/);
+    assert.equal(reports[0].applied, true);
+  });
+
+  it('falls back to matching lines ignoring indentation', () => {
+    const { content, reports } = applySearchReplace(source, [{ search: '    return "hello";\n}', replace: '  return "hey";\n}' }]);
+    assert.match(content, /^ {2}return "hey";$/m);
+    assert.match(reports[0].detail, /ignoring whitespace/);
+  });
+
+  it('refuses ambiguous matches unless replaceAll is set', () => {
+    const ambiguous = applySearchReplace(source, [{ search: 'greet', replace: 'hello' }]);
+    assert.equal(ambiguous.reports[0].applied, false);
+    assert.equal(ambiguous.content, source);
+
+    const all = applySearchReplace(source, [{ search: 'greet', replace: 'hello', replaceAll: true }]);
+    assert.doesNotMatch(all.content, /greet/);
+  });
+});